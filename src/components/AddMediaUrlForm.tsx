@@ -0,0 +1,99 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC, FormEvent, useState } from "react";
+import {
+    Button,
+    Input,
+    Spinner,
+    Text,
+    tokens,
+} from "@fluentui/react-components";
+import { Add20Regular, Link20Regular } from "@fluentui/react-icons";
+import { MediaItem } from "../utils/media-list";
+import {
+    createMediaItemFromUrl,
+    getMediaItemTypeFromUrl,
+    parseMediaUrl,
+} from "../utils/media-url";
+import { FlexColumn, FlexRow } from "./flex";
+
+/**
+ * Form for adding any media URL to the playlist, such as an MP4, MP3, HLS or DASH manifest.
+ */
+export const AddMediaUrlForm: FC<{
+    addCustomMediaItem: (mediaItem: MediaItem) => void;
+    onAdded?: () => void;
+}> = ({ addCustomMediaItem, onAdded }) => {
+    const [value, setValue] = useState("");
+    const [error, setError] = useState<string>();
+    const [loading, setLoading] = useState(false);
+
+    const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        if (loading) return;
+        const url = parseMediaUrl(value);
+        if (!url) {
+            setError("Enter a valid http or https URL.");
+            return;
+        }
+        const type = getMediaItemTypeFromUrl(url);
+        if (!type) {
+            setError(
+                "Unsupported media. Use an audio or video file, or an HLS, DASH or Azure Media Services manifest."
+            );
+            return;
+        }
+        setError(undefined);
+        setLoading(true);
+        try {
+            const mediaItem = await createMediaItemFromUrl(url, type);
+            addCustomMediaItem(mediaItem);
+            setValue("");
+            onAdded?.();
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={onSubmit} style={{ width: "100%" }}>
+            <FlexColumn gap="smaller">
+                <FlexRow vAlign="center" gap="smaller">
+                    <Input
+                        type="url"
+                        placeholder="Add by URL"
+                        aria-label="Media URL"
+                        contentBefore={<Link20Regular />}
+                        value={value}
+                        disabled={loading}
+                        onChange={(ev, data) => {
+                            setValue(data.value);
+                            setError(undefined);
+                        }}
+                        style={{ flex: 1, minWidth: "0px" }}
+                    />
+                    <Button
+                        type="submit"
+                        appearance="primary"
+                        icon={
+                            loading ? <Spinner size="tiny" /> : <Add20Regular />
+                        }
+                        disabled={loading || !value.trim()}
+                        title={"Add to playlist"}
+                    />
+                </FlexRow>
+                {!!error && (
+                    <Text
+                        size={200}
+                        style={{ color: tokens.colorPaletteRedForeground1 }}
+                    >
+                        {error}
+                    </Text>
+                )}
+            </FlexColumn>
+        </form>
+    );
+};
@@ -0,0 +1,112 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Image, Text, mergeClasses } from "@fluentui/react-components";
+import { MusicNote2Regular } from "@fluentui/react-icons";
+import { MediaItem } from "../utils/media-list";
+import { useAudioPeaks } from "../utils/useAudioPeaks";
+import { getAudioStageStyles } from "../styles/styles";
+import { FlexColumn, FlexRow } from "./flex";
+
+const WAVEFORM_BAR_COUNT = 64;
+// Height of quiet bars, so that every bar can still be clicked to seek
+const MIN_BAR_HEIGHT = 0.05;
+// Height of every bar while the audio hasn't been decoded, which shows a plain progress bar
+const UNDECODED_BAR_HEIGHT = 0.1;
+
+interface IAudioStageProps {
+    mediaItem: MediaItem;
+    currentTime: number;
+    duration: number;
+    isPlaybackDisabled: boolean;
+    onSeek: (time: number) => void;
+}
+
+/**
+ * Stage layout for audio-only media items, showing artwork, track metadata and a waveform
+ * that doubles as the playback progress indicator. The waveform shows the peaks decoded from
+ * the audio file, and is a flat progress bar when the audio can't be decoded.
+ */
+export const AudioStage: FC<IAudioStageProps> = ({
+    mediaItem,
+    currentTime,
+    duration,
+    isPlaybackDisabled,
+    onSeek,
+}) => {
+    const peaks = useAudioPeaks(mediaItem, WAVEFORM_BAR_COUNT);
+    const waveform =
+        peaks?.map((peak) => Math.max(MIN_BAR_HEIGHT, peak)) ??
+        new Array<number>(WAVEFORM_BAR_COUNT).fill(UNDECODED_BAR_HEIGHT);
+    const progress = duration > 0 ? currentTime / duration : 0;
+    const subtitle = [mediaItem.artist, mediaItem.album]
+        .filter((value) => !!value)
+        .join(" — ");
+
+    const styles = getAudioStageStyles();
+
+    return (
+        <FlexColumn
+            hAlign="center"
+            vAlign="center"
+            gap="small"
+            className={styles.root}
+        >
+            {mediaItem.thumbnailImage ? (
+                <Image
+                    src={mediaItem.thumbnailImage}
+                    fit="cover"
+                    className={styles.artwork}
+                />
+            ) : (
+                <FlexColumn
+                    hAlign="center"
+                    vAlign="center"
+                    className={mergeClasses(
+                        styles.artwork,
+                        styles.artworkPlaceholder
+                    )}
+                >
+                    <MusicNote2Regular fontSize={64} />
+                </FlexColumn>
+            )}
+            <Text size={500} weight="semibold" align="center">
+                {mediaItem.title}
+            </Text>
+            {!!subtitle && (
+                <Text size={300} align="center" className={styles.subtitle}>
+                    {subtitle}
+                </Text>
+            )}
+            <FlexRow vAlign="center" className={styles.waveform}>
+                {waveform.map((barHeight, index) => {
+                    const barPosition = index / waveform.length;
+                    return (
+                        <div
+                            key={index}
+                            role="button"
+                            aria-label={`Seek to ${Math.round(
+                                barPosition * 100
+                            )}%`}
+                            className={mergeClasses(
+                                styles.waveformBar,
+                                barPosition < progress &&
+                                    styles.waveformBarPlayed
+                            )}
+                            style={{ height: `${barHeight * 100}%` }}
+                            onClick={(event) => {
+                                // Don't toggle play/pause on the stage behind the waveform
+                                event.stopPropagation();
+                                if (isPlaybackDisabled || duration <= 0) return;
+                                onSeek(barPosition * duration);
+                            }}
+                        />
+                    );
+                })}
+            </FlexRow>
+        </FlexColumn>
+    );
+};
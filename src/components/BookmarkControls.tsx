@@ -0,0 +1,125 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC, useState } from "react";
+import {
+    Button,
+    Input,
+    Popover,
+    PopoverSurface,
+    PopoverTrigger,
+    Text,
+} from "@fluentui/react-components";
+import {
+    Bookmark20Regular,
+    BookmarkAdd20Regular,
+    Delete20Regular,
+} from "@fluentui/react-icons";
+import { IBookmark } from "../live-share-hooks";
+import { formatTimeValue } from "../utils/format";
+import { FlexColumn, FlexRow } from "./flex";
+
+interface IBookmarkControlsProps {
+    bookmarks: IBookmark[];
+    currentTime: number;
+    addBookmark: (time: number, title?: string) => void;
+    removeBookmark: (id: string) => void;
+    seekTo: (time: number) => void;
+}
+
+/**
+ * Popover for adding a bookmark at the current time and jumping to existing bookmarks.
+ */
+export const BookmarkControls: FC<IBookmarkControlsProps> = ({
+    bookmarks,
+    currentTime,
+    addBookmark,
+    removeBookmark,
+    seekTo,
+}) => {
+    const [title, setTitle] = useState("");
+
+    return (
+        <Popover>
+            <PopoverTrigger>
+                <Button
+                    icon={<Bookmark20Regular />}
+                    appearance="transparent"
+                    title={"Bookmarks"}
+                />
+            </PopoverTrigger>
+            <PopoverSurface aria-label="bookmarks">
+                <FlexColumn gap="small" style={{ minWidth: "240px" }}>
+                    <form
+                        onSubmit={(event) => {
+                            event.preventDefault();
+                            addBookmark(currentTime, title);
+                            setTitle("");
+                        }}
+                    >
+                        <FlexRow vAlign="center" gap="smaller">
+                            <Input
+                                size="small"
+                                placeholder={`Bookmark at ${formatTimeValue(
+                                    currentTime
+                                )}`}
+                                aria-label="Bookmark title"
+                                value={title}
+                                onChange={(ev, data) => {
+                                    setTitle(data.value);
+                                }}
+                                style={{ flex: 1, minWidth: "0px" }}
+                            />
+                            <Button
+                                type="submit"
+                                size="small"
+                                icon={<BookmarkAdd20Regular />}
+                                title={"Add bookmark"}
+                            />
+                        </FlexRow>
+                    </form>
+                    {bookmarks.length === 0 && (
+                        <Text size={200}>{"No bookmarks yet."}</Text>
+                    )}
+                    {bookmarks.map((bookmark) => (
+                        <FlexRow
+                            key={bookmark.id}
+                            vAlign="center"
+                            gap="smaller"
+                            spaceBetween
+                        >
+                            <Button
+                                size="small"
+                                appearance="subtle"
+                                title={
+                                    bookmark.createdBy
+                                        ? `Added by ${bookmark.createdBy}`
+                                        : undefined
+                                }
+                                onClick={() => {
+                                    seekTo(bookmark.time);
+                                }}
+                                style={{ justifyContent: "flex-start" }}
+                            >
+                                {`${formatTimeValue(bookmark.time)} · ${
+                                    bookmark.title
+                                }`}
+                            </Button>
+                            <Button
+                                size="small"
+                                appearance="subtle"
+                                icon={<Delete20Regular />}
+                                title={"Remove bookmark"}
+                                onClick={() => {
+                                    removeBookmark(bookmark.id);
+                                }}
+                            />
+                        </FlexRow>
+                    ))}
+                </FlexColumn>
+            </PopoverSurface>
+        </Popover>
+    );
+};
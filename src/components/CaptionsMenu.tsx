@@ -0,0 +1,120 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import {
+    Button,
+    Menu,
+    MenuDivider,
+    MenuGroup,
+    MenuGroupHeader,
+    MenuItemCheckbox,
+    MenuItemRadio,
+    MenuList,
+    MenuPopover,
+    MenuTrigger,
+} from "@fluentui/react-components";
+import {
+    Checkmark20Regular,
+    ClosedCaption20Filled,
+    ClosedCaption20Regular,
+} from "@fluentui/react-icons";
+import { ISubtitleTrack } from "../utils/media-list";
+
+// Radio value used for turning captions off
+const CAPTIONS_OFF = "off";
+
+interface ICaptionsMenuProps {
+    subtitleTracks: ISubtitleTrack[];
+    activeTrack: ISubtitleTrack | undefined;
+    setCaptionsLanguage: (language: string | undefined) => void;
+    forceCaptions: boolean;
+    setForceCaptions: (force: boolean) => void;
+    localUserIsPresenting: boolean;
+}
+
+/**
+ * Menu for picking the local caption language, and for the presenter to turn captions on
+ * for everyone.
+ */
+export const CaptionsMenu: FC<ICaptionsMenuProps> = ({
+    subtitleTracks,
+    activeTrack,
+    setCaptionsLanguage,
+    forceCaptions,
+    setForceCaptions,
+    localUserIsPresenting,
+}) => {
+    return (
+        <Menu
+            checkedValues={{
+                language: [activeTrack?.language ?? CAPTIONS_OFF],
+                force: forceCaptions ? ["everyone"] : [],
+            }}
+            onCheckedValueChange={(ev, data) => {
+                if (data.name === "language") {
+                    const language = data.checkedItems[0];
+                    setCaptionsLanguage(
+                        language === CAPTIONS_OFF ? undefined : language
+                    );
+                } else if (data.name === "force") {
+                    setForceCaptions(data.checkedItems.includes("everyone"));
+                }
+            }}
+        >
+            <MenuTrigger disableButtonEnhancement>
+                <Button
+                    icon={
+                        activeTrack ? (
+                            <ClosedCaption20Filled />
+                        ) : (
+                            <ClosedCaption20Regular />
+                        )
+                    }
+                    appearance="transparent"
+                    title={"Captions"}
+                />
+            </MenuTrigger>
+            <MenuPopover>
+                <MenuList>
+                    <MenuGroup>
+                        <MenuGroupHeader>{"Captions"}</MenuGroupHeader>
+                        <MenuItemRadio
+                            name="language"
+                            value={CAPTIONS_OFF}
+                            // Captions can't be turned off while forced on
+                            disabled={forceCaptions}
+                            icon={<Checkmark20Regular />}
+                        >
+                            {"Off"}
+                        </MenuItemRadio>
+                        {subtitleTracks.map((track) => (
+                            <MenuItemRadio
+                                key={track.language}
+                                name="language"
+                                value={track.language}
+                                icon={<Checkmark20Regular />}
+                            >
+                                {track.label}
+                            </MenuItemRadio>
+                        ))}
+                    </MenuGroup>
+                    {localUserIsPresenting && (
+                        <>
+                            <MenuDivider />
+                            <MenuItemCheckbox
+                                name="force"
+                                value="everyone"
+                                icon={<Checkmark20Regular />}
+                            >
+                                {"On for everyone"}
+                            </MenuItemCheckbox>
+                        </>
+                    )}
+                </MenuList>
+            </MenuPopover>
+        </Menu>
+    );
+};
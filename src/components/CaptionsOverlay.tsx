@@ -0,0 +1,31 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { ITextCue } from "../utils/webvtt";
+import { getCaptionsOverlayStyles } from "../styles/styles";
+
+/**
+ * Renders the subtitle cues active at the current playback time over the stage.
+ */
+export const CaptionsOverlay: FC<{
+    cues: ITextCue[];
+    currentTime: number;
+}> = ({ cues, currentTime }) => {
+    const activeCues = cues.filter(
+        (cue) => cue.startTime <= currentTime && currentTime < cue.endTime
+    );
+    const styles = getCaptionsOverlayStyles();
+    if (activeCues.length === 0) return null;
+    return (
+        <div className={styles.root} aria-live="polite">
+            {activeCues.map((cue, index) => (
+                <span key={`${cue.startTime}-${index}`} className={styles.cue}>
+                    {cue.text}
+                </span>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Button, Text } from "@fluentui/react-components";
+import { Checkmark20Regular, Dismiss20Regular } from "@fluentui/react-icons";
+import { IControlRequest } from "../live-share-hooks";
+import { FlexColumn, FlexRow } from "./flex";
+
+/**
+ * Pending requests to take control. The presenter can accept or deny each one; anyone else
+ * only sees who is waiting.
+ */
+export const ControlRequestList: FC<{
+    controlRequests: IControlRequest[];
+    canRespond: boolean;
+    acceptControlRequest: (userId: string) => void;
+    denyControlRequest: (userId: string) => void;
+}> = ({
+    controlRequests,
+    canRespond,
+    acceptControlRequest,
+    denyControlRequest,
+}) => {
+    return (
+        <FlexColumn gap="smaller">
+            {controlRequests.map((request) => (
+                <FlexRow key={request.userId} vAlign="center" gap="small">
+                    <Text size={300} style={{ flex: 1, minWidth: "0px" }}>
+                        {`${
+                            request.displayName ?? "Someone"
+                        } wants to take control`}
+                    </Text>
+                    {canRespond && (
+                        <Button
+                            size="small"
+                            appearance="primary"
+                            icon={<Checkmark20Regular />}
+                            onClick={() => {
+                                acceptControlRequest(request.userId);
+                            }}
+                        >
+                            {"Accept"}
+                        </Button>
+                    )}
+                    {canRespond && (
+                        <Button
+                            size="small"
+                            icon={<Dismiss20Regular />}
+                            onClick={() => {
+                                denyControlRequest(request.userId);
+                            }}
+                        >
+                            {"Deny"}
+                        </Button>
+                    )}
+                </FlexRow>
+            ))}
+        </FlexColumn>
+    );
+};
@@ -0,0 +1,49 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Text } from "@fluentui/react-components";
+import {
+    CONTROL_REQUEST_TIMEOUT_MS,
+    IControlRequest,
+} from "../live-share-hooks";
+import { getControlRequestOverlayStyles } from "../styles/styles";
+import { ControlRequestList } from "./ControlRequestList";
+import { FlexColumn } from "./flex";
+
+/**
+ * Prompt on stage asking the presenter to accept or deny requests to take control.
+ */
+export const ControlRequestOverlay: FC<{
+    controlRequests: IControlRequest[];
+    localUserIsPresenting: boolean;
+    acceptControlRequest: (userId: string) => void;
+    denyControlRequest: (userId: string) => void;
+}> = ({
+    controlRequests,
+    localUserIsPresenting,
+    acceptControlRequest,
+    denyControlRequest,
+}) => {
+    const styles = getControlRequestOverlayStyles();
+    if (!localUserIsPresenting || controlRequests.length === 0) {
+        return null;
+    }
+    return (
+        <FlexColumn gap="smaller" className={styles.root}>
+            <ControlRequestList
+                controlRequests={controlRequests}
+                canRespond={localUserIsPresenting}
+                acceptControlRequest={acceptControlRequest}
+                denyControlRequest={denyControlRequest}
+            />
+            <Text size={200} className={styles.hint}>
+                {`Requests are accepted automatically after ${
+                    CONTROL_REQUEST_TIMEOUT_MS / 1000
+                } seconds.`}
+            </Text>
+        </FlexColumn>
+    );
+};
@@ -0,0 +1,138 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import {
+    Button,
+    Label,
+    Popover,
+    PopoverSurface,
+    PopoverTrigger,
+    Radio,
+    RadioGroup,
+    Slider,
+    Switch,
+    Text,
+    tokens,
+} from "@fluentui/react-components";
+import { PersonVoice20Regular } from "@fluentui/react-icons";
+import {
+    DuckingMode,
+    IDuckingSettings,
+    MAX_DUCKING_RAMP_DURATION,
+} from "../live-share-hooks";
+import { FlexColumn } from "./flex";
+
+interface IDuckingSettingsProps {
+    duckingSettings: IDuckingSettings;
+    isSpeaking: boolean;
+    setDuckingSettings: (settings: Partial<IDuckingSettings>) => void;
+    simulateSpeaking: ((isSpeaking: boolean) => void) | undefined;
+}
+
+/**
+ * Settings for what happens to the media while someone in the meeting is speaking.
+ * Outside of Teams, speech can be simulated to try the settings out.
+ */
+export const DuckingSettings: FC<IDuckingSettingsProps> = ({
+    duckingSettings,
+    isSpeaking,
+    setDuckingSettings,
+    simulateSpeaking,
+}) => {
+    const { mode, limitLevel, rampDownDuration, rampUpDuration } =
+        duckingSettings;
+    return (
+        <Popover positioning="above-end" withArrow>
+            <PopoverTrigger disableButtonEnhancement>
+                <Button
+                    icon={<PersonVoice20Regular />}
+                    appearance="transparent"
+                    title={"Audio ducking"}
+                />
+            </PopoverTrigger>
+            <PopoverSurface>
+                <FlexColumn gap="small" style={{ width: "240px" }}>
+                    <Text weight="semibold">{"When someone speaks"}</Text>
+                    <RadioGroup
+                        value={mode}
+                        onChange={(ev, data) => {
+                            setDuckingSettings({
+                                mode: data.value as DuckingMode,
+                            });
+                        }}
+                    >
+                        <Radio value="off" label="Keep playing" />
+                        <Radio value="limit" label="Lower the volume" />
+                        <Radio value="pause" label="Pause" />
+                    </RadioGroup>
+                    <FlexColumn>
+                        <Label size="small" disabled={mode !== "limit"}>
+                            {`Lowered volume: ${Math.round(limitLevel * 100)}%`}
+                        </Label>
+                        <Slider
+                            min={0}
+                            max={100}
+                            step={5}
+                            value={Math.round(limitLevel * 100)}
+                            disabled={mode !== "limit"}
+                            aria-label="Lowered volume"
+                            onChange={(ev, data) => {
+                                setDuckingSettings({
+                                    limitLevel: data.value / 100,
+                                });
+                            }}
+                        />
+                        <Label size="small" disabled={mode !== "limit"}>
+                            {`Fade down: ${rampDownDuration.toFixed(1)}s`}
+                        </Label>
+                        <Slider
+                            min={0}
+                            max={MAX_DUCKING_RAMP_DURATION * 10}
+                            value={Math.round(rampDownDuration * 10)}
+                            disabled={mode !== "limit"}
+                            aria-label="Fade down duration"
+                            onChange={(ev, data) => {
+                                setDuckingSettings({
+                                    rampDownDuration: data.value / 10,
+                                });
+                            }}
+                        />
+                        <Label size="small" disabled={mode !== "limit"}>
+                            {`Fade up: ${rampUpDuration.toFixed(1)}s`}
+                        </Label>
+                        <Slider
+                            min={0}
+                            max={MAX_DUCKING_RAMP_DURATION * 10}
+                            value={Math.round(rampUpDuration * 10)}
+                            disabled={mode !== "limit"}
+                            aria-label="Fade up duration"
+                            onChange={(ev, data) => {
+                                setDuckingSettings({
+                                    rampUpDuration: data.value / 10,
+                                });
+                            }}
+                        />
+                    </FlexColumn>
+                    {simulateSpeaking && (
+                        <Switch
+                            label="Simulate speaking"
+                            checked={isSpeaking}
+                            onChange={(ev, data) => {
+                                simulateSpeaking(data.checked);
+                            }}
+                        />
+                    )}
+                    <Text
+                        size={200}
+                        style={{ color: tokens.colorNeutralForeground3 }}
+                    >
+                        {isSpeaking ? "Speech detected" : "No speech detected"}
+                    </Text>
+                </FlexColumn>
+            </PopoverSurface>
+        </Popover>
+    );
+};
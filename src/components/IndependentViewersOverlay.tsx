@@ -0,0 +1,58 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Button, Text } from "@fluentui/react-components";
+import { ArrowSync20Regular } from "@fluentui/react-icons";
+import { IRosterEntry } from "../live-share-hooks";
+import { formatTimeValue } from "../utils/format";
+import { getIndependentViewersOverlayStyles } from "../styles/styles";
+import { FlexColumn, FlexRow } from "./flex";
+
+/**
+ * Lets the presenter see who stopped following them, where each of those viewers is, and
+ * bring them all back in sync.
+ */
+export const IndependentViewersOverlay: FC<{
+    independentViewers: IRosterEntry[];
+    localUserIsPresenting: boolean;
+    bringEveryoneBack: () => void;
+}> = ({ independentViewers, localUserIsPresenting, bringEveryoneBack }) => {
+    const styles = getIndependentViewersOverlayStyles();
+    if (!localUserIsPresenting || independentViewers.length === 0) {
+        return null;
+    }
+    return (
+        <FlexColumn gap="smaller" className={styles.root}>
+            <Text size={300} weight="semibold">
+                {`${independentViewers.length} watching independently`}
+            </Text>
+            <FlexColumn className={styles.list}>
+                {independentViewers.map((viewer) => (
+                    <FlexRow key={viewer.userId} spaceBetween gap="small">
+                        <Text size={200} truncate wrap={false}>
+                            {viewer.displayName}
+                        </Text>
+                        {viewer.position !== undefined && (
+                            <Text size={200}>
+                                {`${formatTimeValue(viewer.position)}${
+                                    viewer.playing ? "" : " (paused)"
+                                }`}
+                            </Text>
+                        )}
+                    </FlexRow>
+                ))}
+            </FlexColumn>
+            <Button
+                appearance="primary"
+                size="small"
+                icon={<ArrowSync20Regular />}
+                onClick={bringEveryoneBack}
+            >
+                {"Bring everyone back"}
+            </Button>
+        </FlexColumn>
+    );
+};
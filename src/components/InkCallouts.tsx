@@ -0,0 +1,78 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { mergeClasses } from "@fluentui/react-components";
+import { IInkCallout, isInkAnchorVisible } from "../live-share-hooks";
+import {
+    INK_CALLOUT_FONT_FAMILY,
+    INK_CALLOUT_FONT_SIZE,
+    REFERENCE_HEIGHT,
+} from "../utils/ink-tools";
+import { VideoSize } from "../utils/useVisibleVideoSize";
+import { getInkCalloutsStyles } from "../styles/styles";
+
+/**
+ * Renders the text callouts visible at the current media time over the video, scaled the
+ * same way as the ink. Callouts can be clicked to remove them while the eraser is active.
+ */
+export const InkCallouts: FC<{
+    callouts: IInkCallout[];
+    mediaId: string | undefined;
+    currentTime: number;
+    videoSize: VideoSize | undefined;
+    canRemove: boolean;
+    removeCallout: (id: string) => void;
+}> = ({
+    callouts,
+    mediaId,
+    currentTime,
+    videoSize,
+    canRemove,
+    removeCallout,
+}) => {
+    const styles = getInkCalloutsStyles();
+    if (!videoSize) return null;
+    const visibleCallouts = callouts.filter((callout) =>
+        isInkAnchorVisible(callout, mediaId, currentTime)
+    );
+    if (visibleCallouts.length === 0) return null;
+    // Ink coordinates are relative to the center of the video, at REFERENCE_HEIGHT
+    const scale = videoSize.height / REFERENCE_HEIGHT;
+    return (
+        <div
+            className={styles.root}
+            style={{
+                left: `${videoSize.xOffset}px`,
+                top: `${videoSize.yOffset}px`,
+                width: `${videoSize.width}px`,
+                height: `${videoSize.height}px`,
+            }}
+        >
+            {visibleCallouts.map((callout) => (
+                <span
+                    key={callout.id}
+                    className={mergeClasses(
+                        styles.callout,
+                        canRemove && styles.removable
+                    )}
+                    title={canRemove ? "Remove callout" : undefined}
+                    onClick={
+                        canRemove ? () => removeCallout(callout.id) : undefined
+                    }
+                    style={{
+                        left: `${callout.x * scale + videoSize.width / 2}px`,
+                        top: `${callout.y * scale + videoSize.height / 2}px`,
+                        fontSize: `${INK_CALLOUT_FONT_SIZE * scale}px`,
+                        fontFamily: INK_CALLOUT_FONT_FAMILY,
+                        color: callout.color,
+                    }}
+                >
+                    {callout.text}
+                </span>
+            ))}
+        </div>
+    );
+};
@@ -1,15 +1,37 @@
-import { FC, MutableRefObject, useEffect } from "react";
+import {
+    FC,
+    MouseEvent,
+    MutableRefObject,
+    PointerEvent,
+    useEffect,
+    useState,
+} from "react";
 import { VideoSize } from "../utils/useVisibleVideoSize";
 import { useEventListener } from "../utils/useEventListener";
-import { InkingManager } from "@microsoft/live-share-canvas";
+import {
+    InkingManager,
+    IPoint,
+    toCssRgbaColor,
+} from "@microsoft/live-share-canvas";
+import {
+    addShapeStroke,
+    INK_CALLOUT_FONT_FAMILY,
+    INK_CALLOUT_FONT_SIZE,
+    InkTool,
+    isInkShape,
+    REFERENCE_HEIGHT,
+} from "../utils/ink-tools";
 
-const REFERENCE_HEIGHT = 1080;
+// Shapes dragged smaller than this many pixels are treated as a click and not drawn
+const MIN_SHAPE_SIZE = 4;
 
 interface IInkCanvasProps {
     isEnabled: boolean;
     inkingManager?: InkingManager;
     canvasRef: MutableRefObject<HTMLDivElement | null>;
     videoSize: VideoSize | undefined;
+    inkTool: InkTool;
+    addInkCallout: (position: IPoint, text: string) => void;
 }
 
 export const InkCanvas: FC<IInkCanvasProps> = ({
@@ -17,13 +39,89 @@ export const InkCanvas: FC<IInkCanvasProps> = ({
     inkingManager,
     canvasRef,
     videoSize,
+    inkTool,
+    addInkCallout,
 }) => {
+    // Shape being dragged, in pixels from the top left of the canvas
+    const [shapeDrag, setShapeDrag] = useState<{
+        start: IPoint;
+        end: IPoint;
+    }>();
+    // Text callout being typed, in pixels from the top left of the canvas
+    const [textDraft, setTextDraft] = useState<{
+        position: IPoint;
+        text: string;
+    }>();
+    // Rectangles, ellipses and text are drawn here instead of by the InkingManager
+    const drawsOverlay =
+        isEnabled &&
+        !!inkingManager &&
+        (isInkShape(inkTool) || inkTool === "text");
+    const scale = videoSize ? videoSize.height / REFERENCE_HEIGHT : 1;
+    const color = inkingManager
+        ? toCssRgbaColor(inkingManager.penBrush.color)
+        : "transparent";
+    const borderWidth = (inkingManager?.penBrush.tipSize ?? 0) * scale;
+
     const onMouseEvent = (event: Event) => {
         if (isEnabled) {
             event.preventDefault();
         }
     };
 
+    const getPosition = (event: MouseEvent<HTMLDivElement>): IPoint => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const onPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+        if (!isInkShape(inkTool)) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        const position = getPosition(event);
+        setShapeDrag({ start: position, end: position });
+    };
+
+    const onPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+        if (!shapeDrag) return;
+        setShapeDrag({ ...shapeDrag, end: getPosition(event) });
+    };
+
+    const onPointerUp = (event: PointerEvent<HTMLDivElement>) => {
+        if (!shapeDrag) return;
+        setShapeDrag(undefined);
+        const end = getPosition(event);
+        if (
+            !inkingManager ||
+            !isInkShape(inkTool) ||
+            (Math.abs(end.x - shapeDrag.start.x) < MIN_SHAPE_SIZE &&
+                Math.abs(end.y - shapeDrag.start.y) < MIN_SHAPE_SIZE)
+        ) {
+            return;
+        }
+        addShapeStroke(
+            inkingManager,
+            inkTool,
+            inkingManager.screenToViewport(shapeDrag.start),
+            inkingManager.screenToViewport(end)
+        );
+    };
+
+    const onClick = (event: MouseEvent<HTMLDivElement>) => {
+        // Clicking away from a callout being typed only commits it
+        if (inkTool !== "text" || textDraft) return;
+        setTextDraft({ position: getPosition(event), text: "" });
+    };
+
+    const commitTextDraft = () => {
+        if (textDraft && inkingManager) {
+            addInkCallout(
+                inkingManager.screenToViewport(textDraft.position),
+                textDraft.text
+            );
+        }
+        setTextDraft(undefined);
+    };
+
     useEffect(() => {
         if (videoSize && canvasRef.current) {
             canvasRef.current.style.width = `${videoSize.width}px`;
@@ -37,6 +135,12 @@ export const InkCanvas: FC<IInkCanvasProps> = ({
         }
     }, [videoSize, inkingManager, canvasRef]);
 
+    useEffect(() => {
+        // Drop unfinished shapes and text when the tool changes or inking stops
+        setShapeDrag(undefined);
+        setTextDraft(undefined);
+    }, [inkTool, isEnabled]);
+
     useEventListener("mousedown", onMouseEvent, canvasRef.current ?? undefined);
     useEventListener("mouseup", onMouseEvent, canvasRef.current ?? undefined);
     useEventListener("mousemove", onMouseEvent, canvasRef.current ?? undefined);
@@ -57,6 +161,89 @@ export const InkCanvas: FC<IInkCanvasProps> = ({
                     pointerEvents: isEnabled ? "auto" : "none",
                 }}
             />
+            {/* Kept outside of the LiveCanvas host, which manages its own children */}
+            {drawsOverlay && videoSize && (
+                <div
+                    className="noselect"
+                    style={{
+                        position: "absolute",
+                        left: `${videoSize.xOffset}px`,
+                        top: `${videoSize.yOffset}px`,
+                        width: `${videoSize.width}px`,
+                        height: `${videoSize.height}px`,
+                        cursor: inkTool === "text" ? "text" : "crosshair",
+                        touchAction: "none",
+                    }}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    onClick={onClick}
+                >
+                    {shapeDrag && (
+                        <div
+                            style={{
+                                position: "absolute",
+                                left: `${Math.min(
+                                    shapeDrag.start.x,
+                                    shapeDrag.end.x
+                                )}px`,
+                                top: `${Math.min(
+                                    shapeDrag.start.y,
+                                    shapeDrag.end.y
+                                )}px`,
+                                width: `${Math.abs(
+                                    shapeDrag.end.x - shapeDrag.start.x
+                                )}px`,
+                                height: `${Math.abs(
+                                    shapeDrag.end.y - shapeDrag.start.y
+                                )}px`,
+                                boxSizing: "border-box",
+                                border: `${borderWidth}px solid ${color}`,
+                                borderRadius:
+                                    inkTool === "ellipse" ? "50%" : "0",
+                                pointerEvents: "none",
+                            }}
+                        />
+                    )}
+                    {textDraft && (
+                        <input
+                            autoFocus
+                            aria-label="Callout text"
+                            placeholder="Type a callout"
+                            value={textDraft.text}
+                            onChange={(event) =>
+                                setTextDraft({
+                                    ...textDraft,
+                                    text: event.target.value,
+                                })
+                            }
+                            onKeyDown={(event) => {
+                                if (event.key === "Enter") {
+                                    event.currentTarget.blur();
+                                } else if (event.key === "Escape") {
+                                    setTextDraft(undefined);
+                                }
+                            }}
+                            // Keep the space key from toggling playback while typing
+                            onKeyUp={(event) => event.stopPropagation()}
+                            onBlur={commitTextDraft}
+                            onClick={(event) => event.stopPropagation()}
+                            style={{
+                                position: "absolute",
+                                left: `${textDraft.position.x}px`,
+                                top: `${textDraft.position.y}px`,
+                                fontSize: `${INK_CALLOUT_FONT_SIZE * scale}px`,
+                                fontFamily: INK_CALLOUT_FONT_FAMILY,
+                                color,
+                                backgroundColor: "rgba(0, 0, 0, 0.4)",
+                                border: "none",
+                                outline: `1px dashed ${color}`,
+                                padding: 0,
+                            }}
+                        />
+                    )}
+                </div>
+            )}
         </>
     );
 };
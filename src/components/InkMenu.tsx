@@ -0,0 +1,119 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import {
+    Button,
+    Menu,
+    MenuDivider,
+    MenuItem,
+    MenuItemCheckbox,
+    MenuList,
+    MenuPopover,
+    MenuTrigger,
+} from "@fluentui/react-components";
+import {
+    ArrowDownload20Regular,
+    ArrowUpload20Regular,
+    Checkmark20Regular,
+    Delete20Regular,
+    MoreHorizontal20Regular,
+    Stop20Regular,
+} from "@fluentui/react-icons";
+
+interface IInkMenuProps {
+    canInk: boolean;
+    clearAllInk: () => void;
+    clearInkOnChange: boolean;
+    setClearInkOnChange: (enabled: boolean) => void;
+    saveInk: () => void;
+    loadInk: () => void;
+    inkReplaying: boolean;
+    stopInkReplay: () => void;
+    localUserIsPresenting: boolean;
+}
+
+/**
+ * Menu for clearing, saving and loading ink, and for the presenter to clear ink whenever they
+ * seek or change the track.
+ */
+export const InkMenu: FC<IInkMenuProps> = ({
+    canInk,
+    clearAllInk,
+    clearInkOnChange,
+    setClearInkOnChange,
+    saveInk,
+    loadInk,
+    inkReplaying,
+    stopInkReplay,
+    localUserIsPresenting,
+}) => {
+    if (!canInk && !localUserIsPresenting) return null;
+    return (
+        <Menu
+            checkedValues={{
+                clearOnChange: clearInkOnChange ? ["enabled"] : [],
+            }}
+            onCheckedValueChange={(ev, data) => {
+                if (data.name === "clearOnChange") {
+                    setClearInkOnChange(data.checkedItems.includes("enabled"));
+                }
+            }}
+        >
+            <MenuTrigger disableButtonEnhancement>
+                <Button
+                    icon={<MoreHorizontal20Regular />}
+                    appearance="transparent"
+                    title={"Ink options"}
+                />
+            </MenuTrigger>
+            <MenuPopover>
+                <MenuList>
+                    {localUserIsPresenting && (
+                        <MenuItemCheckbox
+                            name="clearOnChange"
+                            value="enabled"
+                            icon={<Checkmark20Regular />}
+                        >
+                            {"Clear ink on seek or track change"}
+                        </MenuItemCheckbox>
+                    )}
+                    {localUserIsPresenting && canInk && <MenuDivider />}
+                    {canInk && (
+                        <MenuItem
+                            icon={<Delete20Regular />}
+                            onClick={clearAllInk}
+                        >
+                            {"Clear all ink"}
+                        </MenuItem>
+                    )}
+                    <MenuDivider />
+                    <MenuItem
+                        icon={<ArrowDownload20Regular />}
+                        onClick={saveInk}
+                    >
+                        {"Save ink to file"}
+                    </MenuItem>
+                    {canInk && !inkReplaying && (
+                        <MenuItem
+                            icon={<ArrowUpload20Regular />}
+                            onClick={loadInk}
+                        >
+                            {"Load ink from file"}
+                        </MenuItem>
+                    )}
+                    {canInk && inkReplaying && (
+                        <MenuItem
+                            icon={<Stop20Regular />}
+                            onClick={stopInkReplay}
+                        >
+                            {"Stop replaying ink"}
+                        </MenuItem>
+                    )}
+                </MenuList>
+            </MenuPopover>
+        </Menu>
+    );
+};
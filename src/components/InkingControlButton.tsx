@@ -1,13 +1,13 @@
 import { Image, Button } from "@fluentui/react-components";
-import { InkingTool } from "@microsoft/live-share-canvas";
+import { InkTool } from "../utils/ink-tools";
 import React, { ReactNode } from "react";
 import { FC } from "react";
 
 export const InkingControlButton: FC<{
-    tool: InkingTool;
-    selectedTool: InkingTool;
+    tool: InkTool;
+    selectedTool: InkTool;
     isEnabled: boolean;
-    onSelectTool: (tool: InkingTool) => void;
+    onSelectTool: (tool: InkTool) => void;
     children: ReactNode;
 }> = ({ tool, selectedTool, isEnabled, onSelectTool, children }) => (
     // TODO: change back to button
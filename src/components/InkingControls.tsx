@@ -6,15 +6,38 @@ import {
     SetStateAction,
     Dispatch,
 } from "react";
+import { InkingManager, LiveCanvas } from "@microsoft/live-share-canvas";
 import {
-    InkingTool,
-    fromCssColor,
-    InkingManager,
-    LiveCanvas,
-} from "@microsoft/live-share-canvas";
-import { Image } from "@fluentui/react-components";
-import { FlexRow } from "./flex";
+    Button,
+    Image,
+    Menu,
+    MenuItem,
+    MenuList,
+    MenuPopover,
+    MenuTrigger,
+    Popover,
+    PopoverSurface,
+    PopoverTrigger,
+    Text,
+    ToggleButton,
+} from "@fluentui/react-components";
+import {
+    ArrowUpRight20Regular,
+    Circle20Regular,
+    Color20Regular,
+    Line20Regular,
+    RectangleLandscape20Regular,
+    TextT20Regular,
+} from "@fluentui/react-icons";
+import { FlexColumn, FlexRow } from "./flex";
 import { InkingControlButton } from "./InkingControlButton";
+import {
+    applyInkStyle,
+    applyInkTool,
+    INK_COLORS,
+    INK_STROKE_WIDTHS,
+    InkTool,
+} from "../utils/ink-tools";
 // @ts-ignore
 import LaserPointerIcon from "../assets/laser-pointer.svg";
 // @ts-ignore
@@ -24,11 +47,28 @@ import HighlighterIcon from "../assets/highlighter.svg";
 // @ts-ignore
 import EraserIcon from "../assets/eraser.svg";
 
+type ShapeTool = "line" | "arrow" | "rectangle" | "ellipse";
+
+const SHAPE_TOOLS: { tool: ShapeTool; name: string; icon: JSX.Element }[] = [
+    { tool: "line", name: "Line", icon: <Line20Regular /> },
+    { tool: "arrow", name: "Arrow", icon: <ArrowUpRight20Regular /> },
+    {
+        tool: "rectangle",
+        name: "Rectangle",
+        icon: <RectangleLandscape20Regular />,
+    },
+    { tool: "ellipse", name: "Ellipse", icon: <Circle20Regular /> },
+];
+
 interface InkingControlsProps {
     liveCanvas: LiveCanvas;
     inkingManager: InkingManager;
     setIsEnabled: Dispatch<SetStateAction<boolean>>;
     isEnabled: boolean;
+    inkTool: InkTool;
+    setInkTool: Dispatch<SetStateAction<InkTool>>;
+    // Whether the local user's roles are allowed to ink
+    canInk: boolean;
 }
 
 export const InkingControls: FC<InkingControlsProps> = ({
@@ -36,34 +76,57 @@ export const InkingControls: FC<InkingControlsProps> = ({
     inkingManager,
     setIsEnabled,
     isEnabled,
+    inkTool,
+    setInkTool,
+    canInk,
 }) => {
-    const [selectedTool, setSelectedTool] = useState(inkingManager.tool);
+    const [color, setColor] = useState(INK_COLORS[0].value);
+    const [strokeWidth, setStrokeWidth] = useState(INK_STROKE_WIDTHS[1].value);
+    const selectedShape =
+        SHAPE_TOOLS.find((shape) => shape.tool === inkTool) ?? SHAPE_TOOLS[0];
     const onSelectTool = useCallback(
-        (tool: InkingTool) => {
-            if (tool !== selectedTool) {
-                inkingManager.tool = tool;
-                setSelectedTool(tool);
+        (tool: InkTool) => {
+            if (tool !== inkTool) {
+                setInkTool(tool);
             }
-            if (isEnabled && tool === selectedTool) {
+            if (isEnabled && tool === inkTool) {
                 setIsEnabled(false);
             } else {
                 setIsEnabled(true);
             }
         },
-        [inkingManager, isEnabled, selectedTool, setIsEnabled]
+        [inkTool, isEnabled, setInkTool, setIsEnabled]
     );
+    const onSelectShape = useCallback(
+        (tool: ShapeTool) => {
+            setInkTool(tool);
+            setIsEnabled(true);
+        },
+        [setInkTool, setIsEnabled]
+    );
+
+    useEffect(() => {
+        applyInkTool(inkingManager, inkTool);
+    }, [inkingManager, inkTool]);
 
     useEffect(() => {
-        if (!inkingManager) return;
-        // Change default color of pen brush
-        inkingManager.penBrush.color = fromCssColor("#E3182D");
-    }, [inkingManager]);
+        applyInkStyle(inkingManager, color, strokeWidth);
+    }, [inkingManager, color, strokeWidth]);
 
     useEffect(() => {
         if (!liveCanvas) return;
         liveCanvas.isCursorShared = true;
     }, [liveCanvas]);
 
+    useEffect(() => {
+        // Stop inking if the organizer takes away the permission
+        if (!canInk) {
+            setIsEnabled(false);
+        }
+    }, [canInk, setIsEnabled]);
+
+    if (!canInk) return null;
+
     return (
         <FlexRow
             gap="smaller"
@@ -71,37 +134,131 @@ export const InkingControls: FC<InkingControlsProps> = ({
         >
             {/* TODO: (Corina) fix marginSpacer usage to gap="small" */}
             <InkingControlButton
-                tool={InkingTool.laserPointer}
+                tool={"laserPointer"}
                 isEnabled={isEnabled}
-                selectedTool={selectedTool}
+                selectedTool={inkTool}
                 onSelectTool={onSelectTool}
             >
                 <Image src={LaserPointerIcon} />
             </InkingControlButton>
             <InkingControlButton
-                tool={InkingTool.pen}
+                tool={"pen"}
                 isEnabled={isEnabled}
-                selectedTool={selectedTool}
+                selectedTool={inkTool}
                 onSelectTool={onSelectTool}
             >
                 <Image src={PenIcon} />
             </InkingControlButton>
             <InkingControlButton
-                tool={InkingTool.highlighter}
+                tool={"highlighter"}
                 isEnabled={isEnabled}
-                selectedTool={selectedTool}
+                selectedTool={inkTool}
                 onSelectTool={onSelectTool}
             >
                 <Image src={HighlighterIcon} />
             </InkingControlButton>
             <InkingControlButton
-                tool={InkingTool.eraser}
+                tool={"eraser"}
                 isEnabled={isEnabled}
-                selectedTool={selectedTool}
+                selectedTool={inkTool}
                 onSelectTool={onSelectTool}
             >
                 <Image src={EraserIcon} />
             </InkingControlButton>
+            <Menu>
+                <MenuTrigger disableButtonEnhancement>
+                    <Button
+                        icon={selectedShape.icon}
+                        appearance="transparent"
+                        title={"Shapes"}
+                        style={{
+                            borderBottom:
+                                selectedShape.tool === inkTool && isEnabled
+                                    ? "2px solid red"
+                                    : "2px solid transparent",
+                            borderRadius: 0,
+                        }}
+                    />
+                </MenuTrigger>
+                <MenuPopover>
+                    <MenuList>
+                        {SHAPE_TOOLS.map((shape) => (
+                            <MenuItem
+                                key={shape.tool}
+                                icon={shape.icon}
+                                onClick={() => onSelectShape(shape.tool)}
+                            >
+                                {shape.name}
+                            </MenuItem>
+                        ))}
+                    </MenuList>
+                </MenuPopover>
+            </Menu>
+            <InkingControlButton
+                tool={"text"}
+                isEnabled={isEnabled}
+                selectedTool={inkTool}
+                onSelectTool={onSelectTool}
+            >
+                <TextT20Regular title={"Text"} style={{ margin: "6px" }} />
+            </InkingControlButton>
+            <Popover positioning="above" withArrow>
+                <PopoverTrigger disableButtonEnhancement>
+                    <Button
+                        icon={<Color20Regular />}
+                        appearance="transparent"
+                        title={"Color and stroke width"}
+                        style={{
+                            borderBottom: `2px solid ${color}`,
+                            borderRadius: 0,
+                        }}
+                    />
+                </PopoverTrigger>
+                <PopoverSurface>
+                    <FlexColumn gap="small">
+                        <Text size={200} weight="semibold">
+                            {"Color"}
+                        </Text>
+                        <FlexRow gap="smaller">
+                            {INK_COLORS.map((inkColor) => (
+                                <Button
+                                    key={inkColor.value}
+                                    title={inkColor.name}
+                                    aria-pressed={inkColor.value === color}
+                                    onClick={() => setColor(inkColor.value)}
+                                    style={{
+                                        backgroundColor: inkColor.value,
+                                        minWidth: "24px",
+                                        width: "24px",
+                                        height: "24px",
+                                        padding: 0,
+                                        outline:
+                                            inkColor.value === color
+                                                ? "2px solid currentColor"
+                                                : "none",
+                                        outlineOffset: "2px",
+                                    }}
+                                />
+                            ))}
+                        </FlexRow>
+                        <Text size={200} weight="semibold">
+                            {"Stroke width"}
+                        </Text>
+                        <FlexRow gap="smaller">
+                            {INK_STROKE_WIDTHS.map((width) => (
+                                <ToggleButton
+                                    key={width.value}
+                                    size="small"
+                                    checked={width.value === strokeWidth}
+                                    onClick={() => setStrokeWidth(width.value)}
+                                >
+                                    {width.name}
+                                </ToggleButton>
+                            ))}
+                        </FlexRow>
+                    </FlexColumn>
+                </PopoverSurface>
+            </Popover>
         </FlexRow>
     );
 };
@@ -3,7 +3,7 @@
  * Licensed under the MIT License.
  */
 
-import { useEffect, useState, useRef, FC } from "react";
+import { useEffect, useState, useRef, useCallback, FC } from "react";
 import { mergeClasses } from "@fluentui/react-components";
 import { useLiveEvent } from "@microsoft/live-share-react";
 import { getLiveNotificationStyles, getPillStyles } from "../styles/styles";
@@ -16,17 +16,27 @@ interface Notification {
     text: string;
 }
 
+/**
+ * Notification shown only to the local user. A new object is needed for each time it is
+ * shown, so the same text can be shown again.
+ */
+export interface ILocalNotification {
+    text: string;
+}
+
 interface ILiveNotificationsProps {
     notificationToDisplay: string | undefined;
+    localNotification?: ILocalNotification;
 }
 
 export const LiveNotifications: FC<ILiveNotificationsProps> = ({
     notificationToDisplay,
+    localNotification,
 }) => {
     const notificationsRef = useRef<Notification[]>([]);
     const [notifications, setNotifications] = useState<Notification[]>([]);
-    useEffect(() => {
-        if (notificationToDisplay) {
+    const displayNotification = useCallback(
+        (text: string) => {
             // Display the notification
             const updatedNotifications: Notification[] = [
                 ...notificationsRef.current,
@@ -36,7 +46,7 @@ export const LiveNotifications: FC<ILiveNotificationsProps> = ({
             )}`;
             updatedNotifications.push({
                 id: notificationId,
-                text: notificationToDisplay,
+                text,
             });
             notificationsRef.current = updatedNotifications;
             setNotifications(notificationsRef.current);
@@ -53,8 +63,21 @@ export const LiveNotifications: FC<ILiveNotificationsProps> = ({
                     setNotifications(notificationsRef.current);
                 }
             }, 1500);
+        },
+        [setNotifications]
+    );
+
+    useEffect(() => {
+        if (notificationToDisplay) {
+            displayNotification(notificationToDisplay);
+        }
+    }, [notificationToDisplay, displayNotification]);
+
+    useEffect(() => {
+        if (localNotification) {
+            displayNotification(localNotification.text);
         }
-    }, [notificationToDisplay, setNotifications]);
+    }, [localNotification, displayNotification]);
 
     const pillStyles = getPillStyles();
     const liveNotificationStyles = getLiveNotificationStyles();
@@ -5,23 +5,30 @@
 
 import { Card, CardPreview, CardFooter } from "@fluentui/react-components";
 import { Image, Text, Button } from "@fluentui/react-components";
-import { Delete20Regular } from "@fluentui/react-icons";
+import {
+    Delete20Regular,
+    MusicNote2Regular,
+    Video20Regular,
+} from "@fluentui/react-icons";
 import { FC } from "react";
 import { MediaItem } from "../utils/media-list";
-import { FlexItem, FlexRow } from "./flex";
+import { FlexColumn, FlexItem, FlexRow } from "./flex";
+import { formatTimeValue } from "../utils/format";
 
 export const MediaCard: FC<{
     mediaItem: MediaItem;
     nowPlayingId?: string;
     sharingActive: boolean;
     buttonText: string;
+    buttonDisabled?: boolean;
     selectMedia: (mediaItem: MediaItem) => void;
-    removeMediaItem: (id: string) => void;
+    removeMediaItem?: (id: string) => void;
 }> = ({
     mediaItem,
     nowPlayingId,
     sharingActive,
     buttonText,
+    buttonDisabled,
     selectMedia,
     removeMediaItem,
 }) => {
@@ -48,12 +55,27 @@ export const MediaCard: FC<{
                         marginBottom: "0.4rem",
                     }}
                 >
-                    <Image
-                        height={140}
-                        fit="contain"
-                        src={mediaItem.thumbnailImage}
-                        style={{ minHeight: "0px" }}
-                    />
+                    {mediaItem.thumbnailImage ? (
+                        <Image
+                            height={140}
+                            fit="contain"
+                            src={mediaItem.thumbnailImage}
+                            style={{ minHeight: "0px" }}
+                        />
+                    ) : (
+                        // Items added by URL don't have a thumbnail
+                        <FlexColumn
+                            hAlign="center"
+                            vAlign="center"
+                            style={{ height: "140px" }}
+                        >
+                            {mediaItem.type === "audio" ? (
+                                <MusicNote2Regular fontSize={48} />
+                            ) : (
+                                <Video20Regular fontSize={48} />
+                            )}
+                        </FlexColumn>
+                    )}
                 </CardPreview>
                 <div
                     style={{
@@ -65,6 +87,11 @@ export const MediaCard: FC<{
                     <Text size={400} weight="semibold">
                         {mediaItem.title}
                     </Text>
+                    {!!mediaItem.duration && (
+                        <Text size={200}>
+                            {` · ${formatTimeValue(mediaItem.duration)}`}
+                        </Text>
+                    )}
                 </div>
                 <CardFooter
                     style={{
@@ -88,8 +115,9 @@ export const MediaCard: FC<{
                                 appearance="outline"
                                 size="small"
                                 disabled={
-                                    nowPlayingId === mediaItem.id &&
-                                    sharingActive
+                                    buttonDisabled ||
+                                    (nowPlayingId === mediaItem.id &&
+                                        sharingActive)
                                 }
                                 onClick={() => {
                                     selectMedia(mediaItem);
@@ -10,10 +10,12 @@ import {
     FC,
     ReactNode,
     MutableRefObject,
+    useRef,
 } from "react";
 import useResizeObserver from "use-resize-observer";
-import PlayerProgressBar from "./PlayerProgressBar";
+import PlayerProgressBar, { IProgressMarker } from "./PlayerProgressBar";
 import { debounce } from "lodash";
+import { v4 } from "uuid";
 import { mergeClasses, tokens } from "@fluentui/react-components";
 import {
     getFlexColumnStyles,
@@ -26,10 +28,41 @@ import {
     getVideoStyle,
 } from "../styles/styles";
 import { InkCanvas } from "./InkCanvas";
-import { AzureMediaPlayer } from "../utils/AzureMediaPlayer";
-import { InkingManager, LiveCanvas } from "@microsoft/live-share-canvas";
+import { InkCallouts } from "./InkCallouts";
+import { MediaPlayerAdapter } from "../utils/MediaPlayerAdapter";
+import {
+    IBookmark,
+    IDuckingSettings,
+    IInkCallout,
+    isInkAnchorVisible,
+    IUserData,
+    LocalPermissions,
+    RepeatMode,
+} from "../live-share-hooks";
+import { LivePresenceUser } from "@microsoft/live-share";
+import {
+    InkingManager,
+    IPoint,
+    LiveCanvas,
+} from "@microsoft/live-share-canvas";
+import { VolumeManager } from "@microsoft/live-share-media";
 import { useVisibleVideoSize } from "../utils/useVisibleVideoSize";
+import { useLocalVolume } from "../utils/useLocalVolume";
+import { InkTool } from "../utils/ink-tools";
+import {
+    addSnapshot,
+    captureSnapshot,
+    downloadBlob,
+    getSnapshotFileName,
+    ISnapshot,
+    SnapshotNotAllowedError,
+} from "../utils/snapshots";
 import { PlayerControls } from "./PlayerControls";
+import { AudioStage } from "./AudioStage";
+import { CaptionsOverlay } from "./CaptionsOverlay";
+import { SyncHealthOverlay } from "./SyncHealthOverlay";
+import { ISubtitleTrack, MediaItem } from "../utils/media-list";
+import { ITextCue } from "../utils/webvtt";
 
 const events = [
     "loadstart",
@@ -57,40 +90,128 @@ export interface IPlayerState {
 }
 
 interface IMediaPlayerContainerProps {
-    player: AzureMediaPlayer | null;
+    player: MediaPlayerAdapter | null;
+    selectedMediaItem: MediaItem | undefined;
     liveCanvas?: LiveCanvas;
     localUserIsPresenting: boolean;
-    localUserIsEligiblePresenter: boolean;
+    localPermissions: LocalPermissions;
     suspended: boolean;
     play: () => void;
     pause: () => void;
     seekTo: (time: number) => void;
-    takeControl: () => void;
+    playbackRate: number;
+    setPlaybackRate: (rate: number) => void;
+    volumeManager: VolumeManager | undefined;
+    duckingSettings: IDuckingSettings;
+    setDuckingSettings: (settings: Partial<IDuckingSettings>) => void;
+    isSpeaking: boolean;
+    simulateSpeaking: ((isSpeaking: boolean) => void) | undefined;
+    presenterIsOnline: boolean;
+    controlRequested: boolean;
+    requestControl: () => void;
+    cancelControlRequest: () => void;
     endSuspension: () => void;
     nextTrack: () => void; // todo?
+    previousTrack: () => void;
+    repeat: RepeatMode;
+    setRepeat: (repeat: RepeatMode) => void;
+    shuffle: boolean;
+    setShuffle: (shuffle: boolean) => void;
+    autoAdvanceEnabled: boolean;
+    setAutoAdvanceEnabled: (enabled: boolean) => void;
+    progressMarkers: IProgressMarker[];
+    bookmarks: IBookmark[];
+    addBookmark: (time: number, title?: string) => void;
+    removeBookmark: (id: string) => void;
+    subtitleTracks: ISubtitleTrack[];
+    activeTrack: ISubtitleTrack | undefined;
+    setCaptionsLanguage: (language: string | undefined) => void;
+    forceCaptions: boolean;
+    setForceCaptions: (force: boolean) => void;
+    captionCues: ITextCue[];
+    syncOffset: number | null;
+    buffering: boolean;
+    users: LivePresenceUser<IUserData>[];
+    localUserId?: string;
+    showLocalNotification: (text: string) => void;
     canvasRef: MutableRefObject<HTMLDivElement | null>;
     inkingManager?: InkingManager;
+    inkCallouts: IInkCallout[];
+    addInkCallout: (position: IPoint, text: string) => void;
+    removeInkCallout: (id: string) => void;
+    clearInkOnChange: boolean;
+    setClearInkOnChange: (enabled: boolean) => void;
+    clearAllInk: () => void;
+    saveInk: () => void;
+    loadInk: () => void;
+    inkReplaying: boolean;
+    stopInkReplay: () => void;
     children: ReactNode;
 }
 
 export const MediaPlayerContainer: FC<IMediaPlayerContainerProps> = ({
     player,
+    selectedMediaItem,
     liveCanvas,
     localUserIsPresenting,
-    localUserIsEligiblePresenter,
+    localPermissions,
     suspended,
     play,
     pause,
     seekTo,
-    takeControl,
+    playbackRate,
+    setPlaybackRate,
+    volumeManager,
+    duckingSettings,
+    setDuckingSettings,
+    isSpeaking,
+    simulateSpeaking,
+    presenterIsOnline,
+    controlRequested,
+    requestControl,
+    cancelControlRequest,
     endSuspension,
     nextTrack,
+    previousTrack,
+    repeat,
+    setRepeat,
+    shuffle,
+    setShuffle,
+    autoAdvanceEnabled,
+    setAutoAdvanceEnabled,
+    progressMarkers,
+    bookmarks,
+    addBookmark,
+    removeBookmark,
+    subtitleTracks,
+    activeTrack,
+    setCaptionsLanguage,
+    forceCaptions,
+    setForceCaptions,
+    captionCues,
+    syncOffset,
+    buffering,
+    users,
+    localUserId,
+    showLocalNotification,
     canvasRef,
     inkingManager,
+    inkCallouts,
+    addInkCallout,
+    removeInkCallout,
+    clearInkOnChange,
+    setClearInkOnChange,
+    clearAllInk,
+    saveInk,
+    loadInk,
+    inkReplaying,
+    stopInkReplay,
     children,
 }) => {
     const [showControls, setShowControls] = useState(true);
     const [inkActive, setInkActive] = useState(false);
+    const [inkTool, setInkTool] = useState<InkTool>("pen");
+    const [showSyncOverlay, setShowSyncOverlay] = useState(false);
     const [playerState, setPlayerState] = useState<IPlayerState>({
         isPlaying: false,
         playbackStarted: false,
@@ -104,6 +225,9 @@ export const MediaPlayerContainer: FC<IMediaPlayerContainerProps> = ({
     });
     const { ref: resizeRef, width = 1, height = 1 } = useResizeObserver();
     const videoSize = useVisibleVideoSize(width, height);
+    const isAudio = selectedMediaItem?.type === "audio";
+    // Holds the player's <video> element, for taking snapshots
+    const videoContainerRef = useRef<HTMLDivElement>(null);
 
     const hideControls = useCallback(() => {
         setShowControls(false);
@@ -124,19 +248,54 @@ export const MediaPlayerContainer: FC<IMediaPlayerContainerProps> = ({
         }
     }, [player, play, pause]);
 
-    const toggleMute = useCallback(() => {
-        if (!player) {
-            return;
+    const { volume, muted, setVolume, toggleMute } = useLocalVolume(
+        player,
+        volumeManager
+    );
+
+    const takeSnapshot = useCallback(async () => {
+        const video = videoContainerRef.current?.querySelector("video");
+        if (!video || !selectedMediaItem) return;
+        try {
+            const snapshot: ISnapshot = {
+                id: v4(),
+                mediaId: selectedMediaItem.id,
+                mediaTitle: selectedMediaItem.title,
+                mediaTime: video.currentTime,
+                takenAt: Date.now(),
+                image: await captureSnapshot(
+                    video,
+                    canvasRef.current,
+                    inkCallouts.filter((callout) =>
+                        isInkAnchorVisible(
+                            callout,
+                            selectedMediaItem.id,
+                            video.currentTime
+                        )
+                    )
+                ),
+            };
+            downloadBlob(getSnapshotFileName(snapshot), snapshot.image);
+            addSnapshot(snapshot);
+        } catch (error) {
+            console.error(
+                "MediaPlayerContainer: unable to take snapshot",
+                error
+            );
+            showLocalNotification(
+                error instanceof SnapshotNotAllowedError
+                    ? "Can't take a snapshot: this media's server doesn't allow reading its frames"
+                    : "Unable to take a snapshot"
+            );
         }
-        player.muted = !player.muted;
-    }, [player]);
+    }, [selectedMediaItem, canvasRef, inkCallouts, showLocalNotification]);
 
     useEffect(() => {
-        if (!localUserIsPresenting) {
+        if (!localPermissions.ink || isAudio) {
             // Disable ink
             setInkActive(false);
         }
-    }, [localUserIsPresenting, setInkActive]);
+    }, [localPermissions.ink, isAudio, setInkActive]);
 
     useEffect(() => {
         const onPlayerStateUpdate = () => {
@@ -206,6 +365,7 @@ export const MediaPlayerContainer: FC<IMediaPlayerContainerProps> = ({
             <div className={resizeReferenceStyles.root} ref={resizeRef} />
             <div
                 className={videoStyle.root}
+                ref={videoContainerRef}
                 onClick={togglePlayPause}
                 style={{
                     left: `${videoSize?.xOffset || 0}px`,
@@ -215,12 +375,46 @@ export const MediaPlayerContainer: FC<IMediaPlayerContainerProps> = ({
                 }}
             >
                 {children}
+                {/* Audio items show artwork and a waveform instead of a video surface */}
+                {isAudio && selectedMediaItem && (
+                    <AudioStage
+                        mediaItem={selectedMediaItem}
+                        currentTime={playerState.currentTime}
+                        duration={playerState.duration}
+                        isPlaybackDisabled={!playerState.playbackStarted}
+                        onSeek={seekTo}
+                    />
+                )}
+                <CaptionsOverlay
+                    cues={captionCues}
+                    currentTime={playerState.currentTime}
+                />
             </div>
+            {showSyncOverlay && (
+                <SyncHealthOverlay
+                    syncOffset={syncOffset}
+                    buffering={buffering}
+                    currentPlaybackBitrate={playerState.currentPlaybackBitrate}
+                    localUserId={localUserId}
+                    users={users}
+                />
+            )}
+            {/* Ink canvas stays mounted for audio so the LiveCanvas keeps its host element */}
             <InkCanvas
                 canvasRef={canvasRef}
                 isEnabled={inkActive}
                 inkingManager={inkingManager}
-                videoSize={videoSize}
+                videoSize={isAudio ? undefined : videoSize}
+                inkTool={inkTool}
+                addInkCallout={addInkCallout}
+            />
+            <InkCallouts
+                callouts={inkCallouts}
+                mediaId={selectedMediaItem?.id}
+                currentTime={playerState.currentTime}
+                videoSize={isAudio ? undefined : videoSize}
+                canRemove={inkActive && inkTool === "eraser"}
+                removeCallout={removeInkCallout}
             />
             <div
                 className={flexColumnStyles.root}
@@ -243,22 +437,65 @@ export const MediaPlayerContainer: FC<IMediaPlayerContainerProps> = ({
                     currentTime={playerState.currentTime}
                     duration={playerState.duration}
                     isPlaybackDisabled={!playerState.playbackStarted}
+                    markers={progressMarkers}
                     onSeek={seekTo}
                 />
                 <PlayerControls
+                    activeTrack={activeTrack}
+                    addBookmark={addBookmark}
+                    autoAdvanceEnabled={autoAdvanceEnabled}
+                    bookmarks={bookmarks}
+                    buffering={buffering}
+                    cancelControlRequest={cancelControlRequest}
+                    clearAllInk={clearAllInk}
+                    clearInkOnChange={clearInkOnChange}
+                    controlRequested={controlRequested}
+                    duckingSettings={duckingSettings}
                     endSuspension={endSuspension}
+                    forceCaptions={forceCaptions}
                     inkActive={inkActive}
-                    inkingManager={inkingManager}
+                    inkReplaying={inkReplaying}
+                    inkTool={inkTool}
+                    inkingManager={isAudio ? undefined : inkingManager}
+                    isSpeaking={isSpeaking}
                     liveCanvas={liveCanvas}
-                    localUserIsEligiblePresenter={localUserIsEligiblePresenter}
+                    localPermissions={localPermissions}
+                    loadInk={loadInk}
                     localUserIsPresenting={localUserIsPresenting}
+                    muted={muted}
                     nextTrack={nextTrack}
+                    playbackRate={playbackRate}
                     playerState={playerState}
+                    presenterIsOnline={presenterIsOnline}
+                    previousTrack={previousTrack}
+                    removeBookmark={removeBookmark}
+                    repeat={repeat}
+                    requestControl={requestControl}
+                    saveInk={saveInk}
+                    seekTo={seekTo}
+                    setAutoAdvanceEnabled={setAutoAdvanceEnabled}
+                    setCaptionsLanguage={setCaptionsLanguage}
+                    setClearInkOnChange={setClearInkOnChange}
+                    setDuckingSettings={setDuckingSettings}
+                    setForceCaptions={setForceCaptions}
                     setInkActive={setInkActive}
+                    setInkTool={setInkTool}
+                    setPlaybackRate={setPlaybackRate}
+                    setRepeat={setRepeat}
+                    setShowSyncOverlay={setShowSyncOverlay}
+                    setShuffle={setShuffle}
+                    setVolume={setVolume}
+                    showSyncOverlay={showSyncOverlay}
+                    shuffle={shuffle}
+                    simulateSpeaking={simulateSpeaking}
+                    stopInkReplay={stopInkReplay}
+                    subtitleTracks={subtitleTracks}
                     suspended={suspended}
-                    takeControl={takeControl}
+                    syncOffset={syncOffset}
+                    takeSnapshot={isAudio ? undefined : takeSnapshot}
                     toggleMute={toggleMute}
                     togglePlayPause={togglePlayPause}
+                    volume={volume}
                 />
             </div>
         </div>
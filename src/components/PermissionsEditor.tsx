@@ -0,0 +1,138 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Checkbox, Text, tokens } from "@fluentui/react-components";
+import { UserMeetingRole } from "@microsoft/live-share";
+import {
+    getAssignableRoles,
+    MEETING_ROLES,
+    Permission,
+    PermissionMatrix,
+} from "../constants";
+import { FlexColumn, FlexRow } from "./flex";
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+    playback: "Play, pause and seek",
+    changeTrack: "Change track",
+    editPlaylist: "Edit playlist",
+    ink: "Draw on video",
+    takeControl: "Take control",
+};
+
+const ROLE_LABELS: Record<UserMeetingRole, string> = {
+    [UserMeetingRole.organizer]: "Organizer",
+    [UserMeetingRole.presenter]: "Presenter",
+    [UserMeetingRole.attendee]: "Attendee",
+    [UserMeetingRole.guest]: "Guest",
+};
+
+/**
+ * Matrix of the meeting roles allowed to perform each action. Only the organizer can change
+ * it; everyone else sees it read-only.
+ */
+export const PermissionsEditor: FC<{
+    permissions: PermissionMatrix;
+    localUserIsOrganizer: boolean;
+    setPermissionRoles: (
+        permission: Permission,
+        roles: UserMeetingRole[]
+    ) => void;
+}> = ({ permissions, localUserIsOrganizer, setPermissionRoles }) => {
+    return (
+        <FlexColumn gap="small">
+            {!localUserIsOrganizer && (
+                <Text
+                    size={200}
+                    style={{ color: tokens.colorNeutralForeground3 }}
+                >
+                    {"Only the meeting organizer can change permissions."}
+                </Text>
+            )}
+            {(Object.keys(PERMISSION_LABELS) as Permission[]).map(
+                (permission) => {
+                    const assignableRoles = getAssignableRoles(permission);
+                    // Limited to roles the media session accepts playback changes from
+                    const limited =
+                        assignableRoles.length < MEETING_ROLES.length;
+                    // An empty list means every role the permission can be given to
+                    const roles = permissions[permission]?.length
+                        ? permissions[permission]
+                        : limited
+                        ? assignableRoles
+                        : [];
+                    const everyone = roles.length === 0;
+                    return (
+                        <FlexColumn key={permission}>
+                            <Text weight="semibold">
+                                {PERMISSION_LABELS[permission]}
+                            </Text>
+                            {limited && (
+                                <Text
+                                    size={200}
+                                    style={{
+                                        color: tokens.colorNeutralForeground3,
+                                    }}
+                                >
+                                    {
+                                        "Only roles that can control synchronized playback."
+                                    }
+                                </Text>
+                            )}
+                            <FlexRow wrap>
+                                {!limited && (
+                                    <Checkbox
+                                        label="Everyone"
+                                        checked={everyone}
+                                        disabled={!localUserIsOrganizer}
+                                        onChange={(ev, data) => {
+                                            // Unchecking keeps every role, so it can be narrowed down
+                                            setPermissionRoles(
+                                                permission,
+                                                data.checked
+                                                    ? []
+                                                    : MEETING_ROLES
+                                            );
+                                        }}
+                                    />
+                                )}
+                                {assignableRoles.map((role) => (
+                                    <Checkbox
+                                        key={role}
+                                        label={ROLE_LABELS[role]}
+                                        checked={
+                                            everyone || roles.includes(role)
+                                        }
+                                        disabled={
+                                            !localUserIsOrganizer ||
+                                            everyone ||
+                                            // An empty list means everyone, so keep one role
+                                            (roles.length === 1 &&
+                                                roles[0] === role)
+                                        }
+                                        onChange={(ev, data) => {
+                                            setPermissionRoles(
+                                                permission,
+                                                data.checked
+                                                    ? assignableRoles.filter(
+                                                          (r) =>
+                                                              r === role ||
+                                                              roles.includes(r)
+                                                      )
+                                                    : roles.filter(
+                                                          (r) => r !== role
+                                                      )
+                                            );
+                                        }}
+                                    />
+                                ))}
+                            </FlexRow>
+                        </FlexColumn>
+                    );
+                }
+            )}
+        </FlexColumn>
+    );
+};
@@ -0,0 +1,68 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import {
+    Button,
+    Menu,
+    MenuItemRadio,
+    MenuList,
+    MenuPopover,
+    MenuTrigger,
+} from "@fluentui/react-components";
+import { Checkmark20Regular } from "@fluentui/react-icons";
+import { PLAYBACK_RATES } from "../live-share-hooks";
+
+interface IPlaybackRateMenuProps {
+    playbackRate: number;
+    setPlaybackRate: (rate: number) => void;
+    localUserIsPresenting: boolean;
+}
+
+/**
+ * Menu for the presenter to change the playback speed for everyone. Other users only see
+ * the current speed.
+ */
+export const PlaybackRateMenu: FC<IPlaybackRateMenuProps> = ({
+    playbackRate,
+    setPlaybackRate,
+    localUserIsPresenting,
+}) => {
+    return (
+        <Menu
+            checkedValues={{ rate: [`${playbackRate}`] }}
+            onCheckedValueChange={(ev, data) => {
+                const rate = Number(data.checkedItems[0]);
+                if (rate > 0) {
+                    setPlaybackRate(rate);
+                }
+            }}
+        >
+            <MenuTrigger disableButtonEnhancement>
+                <Button
+                    appearance="transparent"
+                    disabled={!localUserIsPresenting}
+                    title={"Playback speed"}
+                >
+                    {`${playbackRate}x`}
+                </Button>
+            </MenuTrigger>
+            <MenuPopover>
+                <MenuList>
+                    {PLAYBACK_RATES.map((rate) => (
+                        <MenuItemRadio
+                            key={rate}
+                            name="rate"
+                            value={`${rate}`}
+                            icon={<Checkmark20Regular />}
+                        >
+                            {rate === 1 ? "Normal" : `${rate}x`}
+                        </MenuItemRadio>
+                    ))}
+                </MenuList>
+            </MenuPopover>
+        </Menu>
+    );
+};
@@ -1,11 +1,16 @@
-import { formatTimeValue } from "../utils/format";
+import { formatSyncOffset, formatTimeValue } from "../utils/format";
 import {
     Pause24Filled,
     Play24Filled,
-    SpeakerMute20Filled,
-    Speaker220Filled,
     Next20Filled,
+    Previous20Filled,
+    ArrowShuffle20Regular,
+    ArrowShuffleOff20Regular,
+    ArrowRepeatAll20Regular,
+    ArrowRepeatAllOff20Regular,
+    ArrowRepeat120Regular,
     Info24Regular,
+    Camera20Regular,
 } from "@fluentui/react-icons";
 import { FC, SetStateAction, Dispatch } from "react";
 import {
@@ -14,43 +19,150 @@ import {
     Popover,
     PopoverTrigger,
     PopoverSurface,
+    Switch,
 } from "@fluentui/react-components";
 import { InkingControls } from "./InkingControls";
+import { InkMenu } from "./InkMenu";
+import { BookmarkControls } from "./BookmarkControls";
+import { CaptionsMenu } from "./CaptionsMenu";
+import { PlaybackRateMenu } from "./PlaybackRateMenu";
+import { VolumeControls } from "./VolumeControls";
+import { DuckingSettings } from "./DuckingSettings";
+import { ISubtitleTrack } from "../utils/media-list";
+import { InkTool } from "../utils/ink-tools";
 import { FlexColumn, FlexRow } from "./flex";
 import { InkingManager, LiveCanvas } from "@microsoft/live-share-canvas";
 import { IPlayerState } from "./MediaPlayerContainer";
+import {
+    IBookmark,
+    IDuckingSettings,
+    LocalPermissions,
+    NEXT_REPEAT_MODE,
+    RepeatMode,
+} from "../live-share-hooks";
 
 interface IPlayerControlsProps {
+    activeTrack: ISubtitleTrack | undefined;
+    addBookmark: (time: number, title?: string) => void;
+    autoAdvanceEnabled: boolean;
+    bookmarks: IBookmark[];
+    buffering: boolean;
+    cancelControlRequest: () => void;
+    clearAllInk: () => void;
+    clearInkOnChange: boolean;
+    controlRequested: boolean;
+    duckingSettings: IDuckingSettings;
     endSuspension: () => void;
+    forceCaptions: boolean;
     inkActive: boolean;
+    inkReplaying: boolean;
+    inkTool: InkTool;
     inkingManager: InkingManager | undefined;
+    isSpeaking: boolean;
     liveCanvas: LiveCanvas | undefined;
-    localUserIsEligiblePresenter: boolean;
+    loadInk: () => void;
+    localPermissions: LocalPermissions;
     localUserIsPresenting: boolean;
+    muted: boolean;
     nextTrack: () => void;
+    playbackRate: number;
     playerState: IPlayerState;
+    presenterIsOnline: boolean;
+    previousTrack: () => void;
+    removeBookmark: (id: string) => void;
+    repeat: RepeatMode;
+    requestControl: () => void;
+    saveInk: () => void;
+    seekTo: (time: number) => void;
+    setAutoAdvanceEnabled: (enabled: boolean) => void;
+    setCaptionsLanguage: (language: string | undefined) => void;
+    setClearInkOnChange: (enabled: boolean) => void;
+    setDuckingSettings: (settings: Partial<IDuckingSettings>) => void;
+    setForceCaptions: (force: boolean) => void;
     setInkActive: Dispatch<SetStateAction<boolean>>;
+    setInkTool: Dispatch<SetStateAction<InkTool>>;
+    setPlaybackRate: (rate: number) => void;
+    setRepeat: (repeat: RepeatMode) => void;
+    setShowSyncOverlay: Dispatch<SetStateAction<boolean>>;
+    setShuffle: (shuffle: boolean) => void;
+    setVolume: (volume: number) => void;
+    showSyncOverlay: boolean;
+    shuffle: boolean;
+    simulateSpeaking: ((isSpeaking: boolean) => void) | undefined;
+    stopInkReplay: () => void;
+    subtitleTracks: ISubtitleTrack[];
     suspended: boolean;
-    takeControl: () => void;
+    syncOffset: number | null;
+    takeSnapshot: (() => void) | undefined;
     toggleMute: () => void;
     togglePlayPause: () => void;
+    volume: number;
 }
 
 export const PlayerControls: FC<IPlayerControlsProps> = ({
+    activeTrack,
+    addBookmark,
+    autoAdvanceEnabled,
+    bookmarks,
+    buffering,
+    cancelControlRequest,
+    clearAllInk,
+    clearInkOnChange,
+    controlRequested,
+    duckingSettings,
     endSuspension,
+    forceCaptions,
     inkActive,
+    inkReplaying,
+    inkTool,
     inkingManager,
+    isSpeaking,
     liveCanvas,
-    localUserIsEligiblePresenter,
+    loadInk,
+    localPermissions,
     localUserIsPresenting,
+    muted,
     nextTrack,
+    playbackRate,
     playerState,
+    presenterIsOnline,
+    previousTrack,
+    removeBookmark,
+    repeat,
+    requestControl,
+    saveInk,
+    seekTo,
+    setAutoAdvanceEnabled,
+    setCaptionsLanguage,
+    setClearInkOnChange,
+    setDuckingSettings,
+    setForceCaptions,
     setInkActive,
+    setInkTool,
+    setPlaybackRate,
+    setRepeat,
+    setShowSyncOverlay,
+    setShuffle,
+    setVolume,
+    showSyncOverlay,
+    shuffle,
+    simulateSpeaking,
+    stopInkReplay,
+    subtitleTracks,
     suspended,
-    takeControl,
+    syncOffset,
+    takeSnapshot,
     toggleMute,
     togglePlayPause,
+    volume,
 }) => {
+    const takeControlText = localUserIsPresenting
+        ? "In control"
+        : controlRequested
+        ? "Cancel request"
+        : presenterIsOnline
+        ? "Request control"
+        : "Take control";
     return (
         <FlexRow
             vAlign="center"
@@ -78,8 +190,17 @@ export const PlayerControls: FC<IPlayerControlsProps> = ({
                     title={playerState.isPlaying ? "Pause" : "Play"}
                     onClick={togglePlayPause}
                 />
+                {/* Previous Track Button */}
+                {localUserIsPresenting && localPermissions.changeTrack && (
+                    <Button
+                        icon={<Previous20Filled />}
+                        appearance="transparent"
+                        title={"Previous track"}
+                        onClick={previousTrack}
+                    />
+                )}
                 {/* Next Track Button */}
-                {localUserIsPresenting && (
+                {localUserIsPresenting && localPermissions.changeTrack && (
                     <Button
                         icon={<Next20Filled />}
                         appearance="transparent"
@@ -87,18 +208,65 @@ export const PlayerControls: FC<IPlayerControlsProps> = ({
                         onClick={nextTrack}
                     />
                 )}
-                {/* Mute Button */}
-                <Button
-                    icon={
-                        playerState.muted ? (
-                            <SpeakerMute20Filled />
-                        ) : (
-                            <Speaker220Filled />
-                        )
-                    }
-                    appearance="transparent"
-                    title={playerState.muted ? "Unmute" : "Mute"}
-                    onClick={toggleMute}
+                {/* Shuffle Toggle */}
+                {localUserIsPresenting && localPermissions.changeTrack && (
+                    <Button
+                        icon={
+                            shuffle ? (
+                                <ArrowShuffle20Regular />
+                            ) : (
+                                <ArrowShuffleOff20Regular />
+                            )
+                        }
+                        appearance="transparent"
+                        title={shuffle ? "Turn off shuffle" : "Shuffle"}
+                        onClick={() => {
+                            setShuffle(!shuffle);
+                        }}
+                    />
+                )}
+                {/* Repeat Mode Button */}
+                {localUserIsPresenting && localPermissions.changeTrack && (
+                    <Button
+                        icon={
+                            repeat === "one" ? (
+                                <ArrowRepeat120Regular />
+                            ) : repeat === "all" ? (
+                                <ArrowRepeatAll20Regular />
+                            ) : (
+                                <ArrowRepeatAllOff20Regular />
+                            )
+                        }
+                        appearance="transparent"
+                        title={
+                            repeat === "one"
+                                ? "Repeat one"
+                                : repeat === "all"
+                                ? "Repeat all"
+                                : "Repeat off"
+                        }
+                        onClick={() => {
+                            setRepeat(NEXT_REPEAT_MODE[repeat]);
+                        }}
+                    />
+                )}
+                {/* Auto-advance Toggle */}
+                {localUserIsPresenting && localPermissions.changeTrack && (
+                    <Switch
+                        label="Autoplay"
+                        title={"Play the next track when this one ends"}
+                        checked={autoAdvanceEnabled}
+                        onChange={(ev, data) => {
+                            setAutoAdvanceEnabled(data.checked);
+                        }}
+                    />
+                )}
+                {/* Volume Controls */}
+                <VolumeControls
+                    muted={muted}
+                    volume={volume}
+                    setVolume={setVolume}
+                    toggleMute={toggleMute}
                 />
                 {/* Formatted Time Value */}
                 <Text size={300} weight="medium">
@@ -142,17 +310,17 @@ export const PlayerControls: FC<IPlayerControlsProps> = ({
                     {!suspended && (
                         <Button
                             appearance="outline"
-                            aria-label={
-                                localUserIsPresenting
-                                    ? `In control`
-                                    : `Take control`
-                            }
+                            aria-label={takeControlText}
                             disabled={
                                 localUserIsPresenting ||
-                                !localUserIsEligiblePresenter
+                                !localPermissions.takeControl
                             }
                             onClick={() => {
-                                takeControl();
+                                if (controlRequested) {
+                                    cancelControlRequest();
+                                } else {
+                                    requestControl();
+                                }
                                 if (suspended) {
                                     endSuspension();
                                 }
@@ -169,9 +337,7 @@ export const PlayerControls: FC<IPlayerControlsProps> = ({
                                         : "1",
                                 }}
                             >
-                                {localUserIsPresenting
-                                    ? `In control`
-                                    : `Take control`}
+                                {takeControlText}
                             </div>
                         </Button>
                     )}
@@ -187,14 +353,73 @@ export const PlayerControls: FC<IPlayerControlsProps> = ({
                         }}
                     />
                     {/* Ink Toggle */}
-                    {localUserIsPresenting && inkingManager && liveCanvas && (
+                    {inkingManager && liveCanvas && (
                         <InkingControls
                             inkingManager={inkingManager}
                             liveCanvas={liveCanvas}
+                            canInk={localPermissions.ink}
                             isEnabled={inkActive}
                             setIsEnabled={setInkActive}
+                            inkTool={inkTool}
+                            setInkTool={setInkTool}
+                        />
+                    )}
+                    {inkingManager && liveCanvas && (
+                        <InkMenu
+                            canInk={localPermissions.ink}
+                            clearAllInk={clearAllInk}
+                            clearInkOnChange={clearInkOnChange}
+                            setClearInkOnChange={setClearInkOnChange}
+                            saveInk={saveInk}
+                            loadInk={loadInk}
+                            inkReplaying={inkReplaying}
+                            stopInkReplay={stopInkReplay}
+                            localUserIsPresenting={localUserIsPresenting}
+                        />
+                    )}
+                    {/* Snapshot of the frame and its ink */}
+                    {takeSnapshot && (
+                        <Button
+                            icon={<Camera20Regular />}
+                            appearance="transparent"
+                            title={"Take snapshot"}
+                            onClick={takeSnapshot}
+                        />
+                    )}
+                    {/* Playback Speed Menu */}
+                    <PlaybackRateMenu
+                        playbackRate={playbackRate}
+                        setPlaybackRate={setPlaybackRate}
+                        localUserIsPresenting={
+                            localUserIsPresenting && localPermissions.playback
+                        }
+                    />
+                    {/* Captions Menu */}
+                    {subtitleTracks.length > 0 && (
+                        <CaptionsMenu
+                            subtitleTracks={subtitleTracks}
+                            activeTrack={activeTrack}
+                            setCaptionsLanguage={setCaptionsLanguage}
+                            forceCaptions={forceCaptions}
+                            setForceCaptions={setForceCaptions}
+                            localUserIsPresenting={localUserIsPresenting}
                         />
                     )}
+                    {/* Bookmarks Popover */}
+                    <BookmarkControls
+                        bookmarks={bookmarks}
+                        currentTime={playerState.currentTime}
+                        addBookmark={addBookmark}
+                        removeBookmark={removeBookmark}
+                        seekTo={seekTo}
+                    />
+                    {/* Audio Ducking Settings */}
+                    <DuckingSettings
+                        duckingSettings={duckingSettings}
+                        isSpeaking={isSpeaking}
+                        setDuckingSettings={setDuckingSettings}
+                        simulateSpeaking={simulateSpeaking}
+                    />
                     {/* Info Popover */}
                     <Popover>
                         <PopoverTrigger>
@@ -231,6 +456,29 @@ export const PlayerControls: FC<IPlayerControlsProps> = ({
                                         size={300}
                                     >{`Volume: ${playerState.volume}`}</Text>
                                 </div>
+                                <div>
+                                    <Text size={300}>
+                                        {localUserIsPresenting
+                                            ? `Sync offset: presenting`
+                                            : `Sync offset: ${formatSyncOffset(
+                                                  syncOffset
+                                              )}`}
+                                    </Text>
+                                </div>
+                                <div>
+                                    <Text size={300}>
+                                        {`Buffering: ${
+                                            buffering ? "yes" : "no"
+                                        }`}
+                                    </Text>
+                                </div>
+                                <Switch
+                                    label="Show sync overlay"
+                                    checked={showSyncOverlay}
+                                    onChange={(ev, data) => {
+                                        setShowSyncOverlay(data.checked);
+                                    }}
+                                />
                             </FlexColumn>
                         </PopoverSurface>
                     </Popover>
@@ -13,7 +13,11 @@ import {
     ReactEventHandler,
     MutableRefObject,
 } from "react";
-import { PositioningImperativeRef, Slider } from "@fluentui/react-components";
+import {
+    mergeClasses,
+    PositioningImperativeRef,
+    Slider,
+} from "@fluentui/react-components";
 import { Tooltip } from "@fluentui/react-components";
 import { getProgressBarStyles } from "../styles/styles";
 import { debounce } from "lodash";
@@ -21,12 +25,21 @@ import useResizeObserver from "use-resize-observer";
 import { getFlexItemStyles } from "../styles/layouts";
 import { formatTimeValue } from "../utils/format";
 
+export interface IProgressMarker {
+    id: string;
+    // Media time in seconds
+    time: number;
+    title: string;
+    kind: "chapter" | "bookmark";
+}
+
 const PlayerProgressBar: FC<{
     currentTime: number;
     duration: number;
     isPlaybackDisabled: boolean;
+    markers?: IProgressMarker[];
     onSeek: (time: number) => void;
-}> = ({ currentTime, duration, isPlaybackDisabled, onSeek }) => {
+}> = ({ currentTime, duration, isPlaybackDisabled, markers = [], onSeek }) => {
     const toolTipPositioningRef = useRef<PositioningImperativeRef>();
     const sliderRef = useRef<HTMLInputElement>();
     const [dimension, setDimensions] = useState<DOMRect>();
@@ -81,7 +94,7 @@ const PlayerProgressBar: FC<{
             );
             const scrollOffSet = 0;
 
-            setToolTipContent(formatTimeValue(hoverTime));
+            setToolTipContent(getToolTipContent(hoverTime, markers));
 
             toolTipPositioningRef.current?.setTarget({
                 getBoundingClientRect: getRect(
@@ -108,7 +121,7 @@ const PlayerProgressBar: FC<{
             );
             const scrollOffSet = 0;
 
-            setToolTipContent(formatTimeValue(hoverTime));
+            setToolTipContent(getToolTipContent(hoverTime, markers));
 
             toolTipPositioningRef.current?.setTarget({
                 getBoundingClientRect: getRect(
@@ -125,6 +138,43 @@ const PlayerProgressBar: FC<{
     return (
         <div className={flexItemStyles.noShrink} ref={resizeRef}>
             <div className={styles.pageEl}>
+                {duration > 0 && markers.length > 0 && (
+                    <div className={styles.markers}>
+                        {markers
+                            .filter(
+                                (marker) =>
+                                    marker.time >= 0 && marker.time <= duration
+                            )
+                            .map((marker) => (
+                                <Tooltip
+                                    key={`${marker.kind}-${marker.id}`}
+                                    withArrow
+                                    content={`${
+                                        marker.title
+                                    } · ${formatTimeValue(marker.time)}`}
+                                    relationship="label"
+                                >
+                                    <button
+                                        className={mergeClasses(
+                                            styles.marker,
+                                            marker.kind === "chapter"
+                                                ? styles.markerChapter
+                                                : styles.markerBookmark
+                                        )}
+                                        style={{
+                                            left: `${
+                                                (marker.time / duration) * 100
+                                            }%`,
+                                        }}
+                                        disabled={isPlaybackDisabled}
+                                        onClick={() => {
+                                            onSeek(marker.time);
+                                        }}
+                                    />
+                                </Tooltip>
+                            ))}
+                    </div>
+                )}
                 <Tooltip
                     withArrow
                     positioning={{
@@ -192,6 +242,26 @@ const PlayerProgressBar: FC<{
     );
 };
 
+// Hover time, with the chapter it falls in and any bookmark close to it
+const getToolTipContent = (hoverTime: number, markers: IProgressMarker[]) => {
+    const chapter = markers
+        .filter(
+            (marker) => marker.kind === "chapter" && marker.time <= hoverTime
+        )
+        .reduce<IProgressMarker | undefined>(
+            (latest, marker) =>
+                !latest || marker.time > latest.time ? marker : latest,
+            undefined
+        );
+    const bookmark = markers.find(
+        (marker) =>
+            marker.kind === "bookmark" && Math.abs(marker.time - hoverTime) < 1
+    );
+    return [formatTimeValue(hoverTime), chapter?.title, bookmark?.title]
+        .filter((value) => !!value)
+        .join(" · ");
+};
+
 const getRect = (x = 0, y = 0) => {
     return () => ({
         x: x,
@@ -0,0 +1,152 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { ChangeEvent, FC, useRef } from "react";
+import {
+    Button,
+    Menu,
+    MenuDivider,
+    MenuItem,
+    MenuList,
+    MenuPopover,
+    MenuTrigger,
+} from "@fluentui/react-components";
+import {
+    ArrowDownload20Regular,
+    ArrowUpload20Regular,
+    MoreHorizontal20Regular,
+} from "@fluentui/react-icons";
+import { MediaItem } from "../utils/media-list";
+import {
+    downloadTextFile,
+    exportPlaylist,
+    getPlaylistFileInfo,
+    parsePlaylistFile,
+    PlaylistFileFormat,
+} from "../utils/playlist-file";
+import { PlaylistImportMode } from "../live-share-hooks";
+
+/**
+ * Menu for saving the playlist to an M3U or JSON file, and loading one back into it.
+ */
+export const PlaylistFileMenu: FC<{
+    mediaItems: MediaItem[];
+    selectedId?: string;
+    // Import is hidden when undefined, e.g. if the local user can't edit the playlist
+    importPlaylist?: (
+        items: MediaItem[],
+        selectedId: string | undefined,
+        mode: PlaylistImportMode
+    ) => number;
+    // Whether the local user can replace the playlist, which also changes the track
+    canReplace: boolean;
+    // Called with the result of an import, to show to the local user
+    onImportStatus: (status: string) => void;
+}> = ({
+    mediaItems,
+    selectedId,
+    importPlaylist,
+    canReplace,
+    onImportStatus,
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const importModeRef = useRef<PlaylistImportMode>("merge");
+
+    const onExport = (format: PlaylistFileFormat) => {
+        const { fileName, mimeType } = getPlaylistFileInfo(format);
+        downloadTextFile(
+            fileName,
+            exportPlaylist(format, mediaItems, selectedId),
+            mimeType
+        );
+    };
+
+    const onImport = (mode: PlaylistImportMode) => {
+        importModeRef.current = mode;
+        fileInputRef.current?.click();
+    };
+
+    const onFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        // Reset so that selecting the same file again still fires onChange
+        event.target.value = "";
+        if (!file || !importPlaylist) return;
+        try {
+            const playlist = parsePlaylistFile(await file.text());
+            const addedCount = importPlaylist(
+                playlist.items,
+                playlist.selectedId,
+                importModeRef.current
+            );
+            const skippedText =
+                playlist.skippedCount > 0
+                    ? `, skipped ${playlist.skippedCount} invalid`
+                    : "";
+            onImportStatus(
+                `Imported ${addedCount} of ${file.name}${skippedText}.`
+            );
+        } catch (error) {
+            console.error(error);
+            onImportStatus(`Unable to read ${file.name} as a playlist.`);
+        }
+    };
+
+    return (
+        <>
+            <Menu>
+                <MenuTrigger disableButtonEnhancement>
+                    <Button
+                        size="small"
+                        appearance="subtle"
+                        icon={<MoreHorizontal20Regular />}
+                        title={"Import or export playlist"}
+                    />
+                </MenuTrigger>
+                <MenuPopover>
+                    <MenuList>
+                        <MenuItem
+                            icon={<ArrowDownload20Regular />}
+                            disabled={mediaItems.length === 0}
+                            onClick={() => onExport("m3u")}
+                        >
+                            {"Export as M3U"}
+                        </MenuItem>
+                        <MenuItem
+                            icon={<ArrowDownload20Regular />}
+                            disabled={mediaItems.length === 0}
+                            onClick={() => onExport("json")}
+                        >
+                            {"Export as JSON"}
+                        </MenuItem>
+                        {!!importPlaylist && <MenuDivider />}
+                        {!!importPlaylist && (
+                            <MenuItem
+                                icon={<ArrowUpload20Regular />}
+                                onClick={() => onImport("merge")}
+                            >
+                                {"Import and add to playlist"}
+                            </MenuItem>
+                        )}
+                        {!!importPlaylist && canReplace && (
+                            <MenuItem
+                                icon={<ArrowUpload20Regular />}
+                                onClick={() => onImport("replace")}
+                            >
+                                {"Import and replace playlist"}
+                            </MenuItem>
+                        )}
+                    </MenuList>
+                </MenuPopover>
+            </Menu>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".m3u,.m3u8,.json,audio/x-mpegurl,application/json"
+                style={{ display: "none" }}
+                onChange={onFileSelected}
+            />
+        </>
+    );
+};
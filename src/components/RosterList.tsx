@@ -0,0 +1,77 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Avatar, Text } from "@fluentui/react-components";
+import { PresenceState } from "@microsoft/live-share";
+import { IRosterEntry } from "../live-share-hooks";
+import { formatTimeValue } from "../utils/format";
+import { FlexColumn, FlexRow } from "./flex";
+
+const PRESENCE_BADGE_STATUS = {
+    [PresenceState.online]: "available",
+    [PresenceState.away]: "away",
+    [PresenceState.offline]: "offline",
+} as const;
+
+/**
+ * List of meeting participants with their roles, online state, whether they are presenting
+ * or watching independently, and their playback position.
+ */
+export const RosterList: FC<{
+    entries: IRosterEntry[];
+    // Media item everyone should be watching, to flag users who have something else loaded
+    currentMediaId?: string;
+}> = ({ entries, currentMediaId }) => {
+    return (
+        <FlexColumn gap="smaller">
+            {entries.map((entry) => {
+                const statuses = [
+                    entry.isPresenting && "Presenting",
+                    entry.suspended && "Watching independently",
+                    entry.state === PresenceState.offline && "Offline",
+                ].filter((status) => !!status);
+                return (
+                    <FlexRow key={entry.userId} vAlign="center" gap="small">
+                        <Avatar
+                            name={entry.displayName}
+                            size={24}
+                            badge={{
+                                status: PRESENCE_BADGE_STATUS[entry.state],
+                            }}
+                        />
+                        <FlexColumn style={{ flex: 1, minWidth: "0px" }}>
+                            <Text
+                                size={300}
+                                weight="semibold"
+                                truncate
+                                wrap={false}
+                            >
+                                {entry.isLocalUser
+                                    ? `${entry.displayName} (You)`
+                                    : entry.displayName}
+                            </Text>
+                            <Text size={200} truncate wrap={false}>
+                                {[entry.roles.join(", "), ...statuses]
+                                    .filter((text) => !!text)
+                                    .join(" · ")}
+                            </Text>
+                        </FlexColumn>
+                        {entry.position !== undefined && (
+                            <Text size={200}>
+                                {currentMediaId &&
+                                entry.mediaId !== currentMediaId
+                                    ? "Other track"
+                                    : `${formatTimeValue(entry.position)}${
+                                          entry.playing ? "" : " (paused)"
+                                      }`}
+                            </Text>
+                        )}
+                    </FlexRow>
+                );
+            })}
+        </FlexColumn>
+    );
+};
@@ -0,0 +1,55 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC, useState } from "react";
+import { Button } from "@fluentui/react-components";
+import {
+    ChevronDown20Regular,
+    ChevronUp20Regular,
+    People20Regular,
+} from "@fluentui/react-icons";
+import { PresenceState } from "@microsoft/live-share";
+import { IRosterEntry } from "../live-share-hooks";
+import { getRosterOverlayStyles } from "../styles/styles";
+import { RosterList } from "./RosterList";
+import { FlexColumn } from "./flex";
+
+/**
+ * Collapsible list of participants on the stage.
+ */
+export const RosterOverlay: FC<{
+    entries: IRosterEntry[];
+    currentMediaId?: string;
+}> = ({ entries, currentMediaId }) => {
+    const [expanded, setExpanded] = useState(false);
+    const styles = getRosterOverlayStyles();
+    const onlineCount = entries.filter(
+        (entry) => entry.state !== PresenceState.offline
+    ).length;
+    return (
+        <FlexColumn gap="smaller" className={styles.root}>
+            <Button
+                appearance="transparent"
+                icon={<People20Regular />}
+                className={styles.toggle}
+                title={expanded ? "Hide participants" : "Show participants"}
+                onClick={() => {
+                    setExpanded(!expanded);
+                }}
+            >
+                {`${onlineCount}`}
+                {expanded ? <ChevronUp20Regular /> : <ChevronDown20Regular />}
+            </Button>
+            {expanded && (
+                <div className={styles.list}>
+                    <RosterList
+                        entries={entries}
+                        currentMediaId={currentMediaId}
+                    />
+                </div>
+            )}
+        </FlexColumn>
+    );
+};
@@ -0,0 +1,86 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Button, Image, Text } from "@fluentui/react-components";
+import { ArrowDownload20Regular, Delete20Regular } from "@fluentui/react-icons";
+import { formatTimeValue } from "../utils/format";
+import { downloadBlob, getSnapshotFileName } from "../utils/snapshots";
+import { useSnapshots } from "../utils/useSnapshots";
+import { FlexColumn, FlexRow } from "./flex";
+
+/**
+ * Snapshots of annotated frames taken from the player, newest first, which the local user
+ * can download or delete.
+ */
+export const SnapshotGallery: FC = () => {
+    const { snapshots, removeSnapshot, removeAllSnapshots } = useSnapshots();
+
+    if (snapshots.length === 0) {
+        return (
+            <Text size={200}>
+                {"Snapshots you take from the player controls appear here."}
+            </Text>
+        );
+    }
+    return (
+        <FlexColumn gap="small">
+            <FlexRow vAlign="center" spaceBetween>
+                <Text size={200}>{`${snapshots.length} snapshots`}</Text>
+                <Button
+                    appearance="subtle"
+                    size="small"
+                    onClick={removeAllSnapshots}
+                >
+                    {"Clear all"}
+                </Button>
+            </FlexRow>
+            {[...snapshots].reverse().map((snapshot) => (
+                <FlexColumn key={snapshot.id} gap="smaller">
+                    <Image
+                        src={snapshot.url}
+                        alt={`${snapshot.mediaTitle} at ${formatTimeValue(
+                            snapshot.mediaTime
+                        )}`}
+                        fit="contain"
+                        shape="rounded"
+                        style={{ width: "100%", backgroundColor: "black" }}
+                    />
+                    <FlexRow vAlign="center" gap="smaller">
+                        <Text
+                            size={200}
+                            truncate
+                            wrap={false}
+                            style={{ flex: 1, minWidth: "0px" }}
+                        >
+                            {`${snapshot.mediaTitle} · ${formatTimeValue(
+                                snapshot.mediaTime
+                            )}`}
+                        </Text>
+                        <Button
+                            appearance="subtle"
+                            icon={<ArrowDownload20Regular />}
+                            title={"Download"}
+                            onClick={() => {
+                                downloadBlob(
+                                    getSnapshotFileName(snapshot),
+                                    snapshot.image
+                                );
+                            }}
+                        />
+                        <Button
+                            appearance="subtle"
+                            icon={<Delete20Regular />}
+                            title={"Delete"}
+                            onClick={() => {
+                                removeSnapshot(snapshot.id);
+                            }}
+                        />
+                    </FlexRow>
+                </FlexColumn>
+            ))}
+        </FlexColumn>
+    );
+};
@@ -0,0 +1,66 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Text } from "@fluentui/react-components";
+import { LivePresenceUser } from "@microsoft/live-share";
+import { IUserData } from "../live-share-hooks";
+import { formatSyncOffset } from "../utils/format";
+import { getSyncHealthOverlayStyles } from "../styles/styles";
+import { FlexColumn } from "./flex";
+
+/**
+ * Debug overlay showing the local sync offset, buffering state and bitrate, followed by the
+ * sync health every other client published through presence.
+ */
+export const SyncHealthOverlay: FC<{
+    syncOffset: number | null;
+    buffering: boolean;
+    currentPlaybackBitrate?: number;
+    localUserId?: string;
+    users: LivePresenceUser<IUserData>[];
+}> = ({
+    syncOffset,
+    buffering,
+    currentPlaybackBitrate,
+    localUserId,
+    users,
+}) => {
+    const styles = getSyncHealthOverlayStyles();
+    const otherUsers = users.filter(
+        (user) => user.userId !== localUserId && !!user.data?.syncHealth
+    );
+    return (
+        <FlexColumn className={styles.root}>
+            <Text size={200} weight="semibold">
+                {"Sync health"}
+            </Text>
+            <Text size={200}>{`Offset: ${formatSyncOffset(syncOffset)}`}</Text>
+            <Text size={200}>{`Buffering: ${buffering ? "yes" : "no"}`}</Text>
+            <Text size={200}>
+                {`Bitrate: ${
+                    currentPlaybackBitrate
+                        ? `${Math.round(currentPlaybackBitrate / 1000)}kbps`
+                        : "n/a"
+                }`}
+            </Text>
+            {otherUsers.map((user) => {
+                const syncHealth = user.data?.syncHealth;
+                const status = [
+                    formatSyncOffset(syncHealth?.offset),
+                    syncHealth?.buffering && "buffering",
+                    syncHealth?.suspended && "watching independently",
+                ]
+                    .filter((value) => !!value)
+                    .join(", ");
+                return (
+                    <Text key={user.userId} size={200}>
+                        {`${user.displayName ?? user.userId}: ${status}`}
+                    </Text>
+                );
+            })}
+        </FlexColumn>
+    );
+};
@@ -5,36 +5,148 @@
 
 import {
     mergeClasses,
+    tokens,
     TabList,
     Tab,
     SelectTabEventHandler,
     SelectTabEvent,
     SelectTabData,
+    ToggleButton,
+    Input,
+    Button,
+    Spinner,
+    Text,
 } from "@fluentui/react-components";
+import {
+    ArrowRepeat120Regular,
+    ArrowRepeatAll20Regular,
+    ArrowShuffle20Regular,
+    ChevronLeft20Regular,
+    ChevronRight20Regular,
+    Search20Regular,
+} from "@fluentui/react-icons";
 import { getFlexItemStyles, getFlexRowStyles } from "../styles/layouts";
 import { MediaCard } from "./MediaCard";
-import { FC, useMemo, useState } from "react";
+import { AddMediaUrlForm } from "./AddMediaUrlForm";
+import { PlaylistFileMenu } from "./PlaylistFileMenu";
+import { PermissionsEditor } from "./PermissionsEditor";
+import { RosterList } from "./RosterList";
+import { SnapshotGallery } from "./SnapshotGallery";
+import { MediaCatalogProvider } from "../utils/MediaCatalogProvider";
+import { useMediaCatalogSearch } from "../utils/useMediaCatalogSearch";
+import { DragEvent, FC, useCallback, useMemo, useState } from "react";
 import { MediaItem } from "../utils/media-list";
 import { FlexItem, FlexRow } from "./flex";
+import {
+    IRosterEntry,
+    LocalPermissions,
+    NEXT_REPEAT_MODE,
+    PlaylistImportMode,
+    RepeatMode,
+} from "../live-share-hooks";
+import { Permission, PermissionMatrix } from "../constants";
+import { UserMeetingRole } from "@microsoft/live-share";
 
 export const TabbedList: FC<{
     mediaItems: MediaItem[];
-    browseItems: MediaItem[];
+    mediaCatalog: MediaCatalogProvider;
     sharingActive: boolean;
     nowPlayingId?: string;
-    addMediaItem: (id: string) => void;
+    addMediaItem: (mediaItem: MediaItem) => void;
+    addCustomMediaItem: (mediaItem: MediaItem) => void;
     removeMediaItem: (id: string) => void;
+    moveMediaItem: (id: string, toIndex: number) => void;
+    importPlaylist: (
+        items: MediaItem[],
+        selectedId: string | undefined,
+        mode: PlaylistImportMode
+    ) => number;
     selectMedia: (mediaItem: MediaItem) => void;
+    repeat: RepeatMode;
+    setRepeat: (repeat: RepeatMode) => void;
+    shuffle: boolean;
+    setShuffle: (shuffle: boolean) => void;
+    localPermissions: LocalPermissions;
+    permissions: PermissionMatrix;
+    localUserIsOrganizer: boolean;
+    setPermissionRoles: (
+        permission: Permission,
+        roles: UserMeetingRole[]
+    ) => void;
+    rosterEntries: IRosterEntry[];
 }> = ({
     mediaItems,
-    browseItems,
+    mediaCatalog,
     sharingActive,
     nowPlayingId,
     addMediaItem,
+    addCustomMediaItem,
     removeMediaItem,
+    moveMediaItem,
+    importPlaylist,
     selectMedia,
+    repeat,
+    setRepeat,
+    shuffle,
+    setShuffle,
+    localPermissions,
+    permissions,
+    localUserIsOrganizer,
+    setPermissionRoles,
+    rosterEntries,
 }) => {
+    const { changeTrack: canChangeTrack, editPlaylist: canEditPlaylist } =
+        localPermissions;
     const [selectedValue, setSelectedValue] = useState<string>("tab1");
+    const [searchQuery, setSearchQuery] = useState("");
+    const [importStatus, setImportStatus] = useState<string>();
+    const {
+        results: searchResults,
+        page: searchPage,
+        setPage: setSearchPage,
+        loading: searchLoading,
+        error: searchError,
+    } = useMediaCatalogSearch(mediaCatalog, searchQuery);
+    // Playlist item being dragged and the index it would be dropped at
+    const [draggedId, setDraggedId] = useState<string>();
+    const [dropIndex, setDropIndex] = useState<number>();
+
+    const resetDrag = useCallback(() => {
+        setDraggedId(undefined);
+        setDropIndex(undefined);
+    }, []);
+
+    const onDragOver = useCallback(
+        (event: DragEvent<HTMLDivElement>, index: number) => {
+            if (!draggedId) return;
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "move";
+            // Drop after the hovered item when over its bottom half
+            const rect = event.currentTarget.getBoundingClientRect();
+            const isAfter = event.clientY > rect.top + rect.height / 2;
+            setDropIndex(isAfter ? index + 1 : index);
+        },
+        [draggedId]
+    );
+
+    const onDrop = useCallback(
+        (event: DragEvent<HTMLDivElement>) => {
+            event.preventDefault();
+            if (draggedId && dropIndex !== undefined) {
+                const fromIndex = mediaItems.findIndex(
+                    (mediaItem) => mediaItem.id === draggedId
+                );
+                // dropIndex counts the dragged item, toIndex is its index once moved
+                const toIndex =
+                    dropIndex > fromIndex ? dropIndex - 1 : dropIndex;
+                if (fromIndex >= 0 && toIndex !== fromIndex) {
+                    moveMediaItem(draggedId, toIndex);
+                }
+            }
+            resetDrag();
+        },
+        [draggedId, dropIndex, mediaItems, moveMediaItem, resetDrag]
+    );
 
     const onTabSelect: SelectTabEventHandler = (
         event: SelectTabEvent,
@@ -44,11 +156,18 @@ export const TabbedList: FC<{
     };
 
     const filteredBrowseItems = useMemo(() => {
-        return browseItems.filter(
+        return (searchResults?.items ?? []).filter(
             (browseItem) =>
                 !mediaItems.find((mediaItem) => browseItem.id === mediaItem.id)
         );
-    }, [browseItems, mediaItems]);
+    }, [searchResults, mediaItems]);
+    const searchPageCount =
+        searchResults?.totalCount !== undefined
+            ? Math.max(
+                  1,
+                  Math.ceil(searchResults.totalCount / searchResults.pageSize)
+              )
+            : undefined;
 
     const flexRowStyles = getFlexRowStyles();
     const flexItemStyles = getFlexItemStyles();
@@ -70,21 +189,147 @@ export const TabbedList: FC<{
                     >
                         <Tab value="tab1">Playlist</Tab>
                         <Tab value="tab2">Browse</Tab>
+                        <Tab value="tab3">Permissions</Tab>
+                        <Tab value="tab4">People</Tab>
+                        <Tab value="tab5">Snapshots</Tab>
                     </TabList>
+                    {selectedValue === "tab1" && (
+                        <FlexRow
+                            vAlign="center"
+                            gap="smaller"
+                            style={{ marginLeft: "auto" }}
+                        >
+                            <ToggleButton
+                                size="small"
+                                appearance="subtle"
+                                icon={<ArrowShuffle20Regular />}
+                                checked={shuffle}
+                                disabled={!canChangeTrack}
+                                title={shuffle ? "Turn off shuffle" : "Shuffle"}
+                                onClick={() => {
+                                    setShuffle(!shuffle);
+                                }}
+                            />
+                            <ToggleButton
+                                size="small"
+                                appearance="subtle"
+                                icon={
+                                    repeat === "one" ? (
+                                        <ArrowRepeat120Regular />
+                                    ) : (
+                                        <ArrowRepeatAll20Regular />
+                                    )
+                                }
+                                checked={repeat !== "off"}
+                                disabled={!canChangeTrack}
+                                title={
+                                    repeat === "one"
+                                        ? "Repeat one"
+                                        : repeat === "all"
+                                        ? "Repeat all"
+                                        : "Repeat off"
+                                }
+                                onClick={() => {
+                                    setRepeat(NEXT_REPEAT_MODE[repeat]);
+                                }}
+                            />
+                            <PlaylistFileMenu
+                                mediaItems={mediaItems}
+                                selectedId={nowPlayingId}
+                                importPlaylist={
+                                    canEditPlaylist ? importPlaylist : undefined
+                                }
+                                canReplace={canChangeTrack}
+                                onImportStatus={setImportStatus}
+                            />
+                        </FlexRow>
+                    )}
                 </FlexRow>
             </FlexItem>
+            {selectedValue === "tab1" && !!importStatus && (
+                <FlexItem noShrink>
+                    <Text size={200}>{importStatus}</Text>
+                </FlexItem>
+            )}
             {selectedValue === "tab1" &&
-                mediaItems.map((mediaItem) => (
-                    <MediaCard
+                mediaItems.map((mediaItem, index) => (
+                    <div
                         key={`media-item-${mediaItem.id}`}
-                        mediaItem={mediaItem}
-                        nowPlayingId={nowPlayingId}
-                        sharingActive={sharingActive}
-                        buttonText="Watch together"
-                        selectMedia={selectMedia}
-                        removeMediaItem={removeMediaItem}
-                    />
+                        draggable={canEditPlaylist}
+                        onDragStart={(event) => {
+                            event.dataTransfer.effectAllowed = "move";
+                            event.dataTransfer.setData(
+                                "text/plain",
+                                mediaItem.id
+                            );
+                            setDraggedId(mediaItem.id);
+                        }}
+                        onDragOver={(event) => onDragOver(event, index)}
+                        onDrop={onDrop}
+                        onDragEnd={resetDrag}
+                        style={{
+                            cursor: canEditPlaylist ? "grab" : undefined,
+                            opacity: draggedId === mediaItem.id ? 0.5 : 1,
+                            // Show a line where the dragged item will be dropped
+                            boxShadow:
+                                dropIndex === index
+                                    ? `0 -2px 0 0 ${tokens.colorBrandStroke1}`
+                                    : dropIndex === index + 1 &&
+                                      index === mediaItems.length - 1
+                                    ? `0 2px 0 0 ${tokens.colorBrandStroke1}`
+                                    : undefined,
+                        }}
+                    >
+                        <MediaCard
+                            mediaItem={mediaItem}
+                            nowPlayingId={nowPlayingId}
+                            sharingActive={sharingActive}
+                            buttonText="Watch together"
+                            buttonDisabled={!canChangeTrack}
+                            selectMedia={selectMedia}
+                            removeMediaItem={
+                                canEditPlaylist ? removeMediaItem : undefined
+                            }
+                        />
+                    </div>
                 ))}
+            {selectedValue === "tab2" && canEditPlaylist && (
+                <FlexItem noShrink>
+                    <AddMediaUrlForm
+                        addCustomMediaItem={addCustomMediaItem}
+                        onAdded={() => {
+                            setSelectedValue("tab1");
+                        }}
+                    />
+                </FlexItem>
+            )}
+            {selectedValue === "tab2" && (
+                <FlexItem noShrink>
+                    <Input
+                        type="search"
+                        placeholder="Search"
+                        aria-label="Search media"
+                        contentBefore={<Search20Regular />}
+                        contentAfter={
+                            searchLoading ? <Spinner size="tiny" /> : undefined
+                        }
+                        value={searchQuery}
+                        onChange={(ev, data) => {
+                            setSearchQuery(data.value);
+                        }}
+                        style={{ width: "100%" }}
+                    />
+                </FlexItem>
+            )}
+            {selectedValue === "tab2" && !!searchError && (
+                <Text size={200}>{"Unable to load the media catalog."}</Text>
+            )}
+            {selectedValue === "tab2" &&
+                !searchLoading &&
+                !searchError &&
+                searchResults?.items.length === 0 && (
+                    <Text size={200}>{"No results."}</Text>
+                )}
             {selectedValue === "tab2" &&
                 filteredBrowseItems.map((mediaItem) => (
                     <MediaCard
@@ -93,13 +338,72 @@ export const TabbedList: FC<{
                         nowPlayingId={undefined}
                         sharingActive={sharingActive}
                         buttonText="Add to playlist"
+                        buttonDisabled={!canEditPlaylist}
                         selectMedia={(item) => {
-                            addMediaItem(item.id);
+                            addMediaItem(item);
                             setSelectedValue("tab1");
                         }}
-                        removeMediaItem={removeMediaItem}
                     />
                 ))}
+            {selectedValue === "tab2" &&
+                !!searchResults &&
+                (searchPage > 0 || searchResults.hasMore) && (
+                    <FlexItem noShrink>
+                        <FlexRow vAlign="center" hAlign="center" gap="small">
+                            <Button
+                                appearance="subtle"
+                                size="small"
+                                icon={<ChevronLeft20Regular />}
+                                title={"Previous page"}
+                                disabled={searchPage === 0 || searchLoading}
+                                onClick={() => {
+                                    setSearchPage(searchPage - 1);
+                                }}
+                            />
+                            <Text size={200}>
+                                {searchPageCount
+                                    ? `Page ${
+                                          searchPage + 1
+                                      } of ${searchPageCount}`
+                                    : `Page ${searchPage + 1}`}
+                            </Text>
+                            <Button
+                                appearance="subtle"
+                                size="small"
+                                icon={<ChevronRight20Regular />}
+                                title={"Next page"}
+                                disabled={
+                                    !searchResults.hasMore || searchLoading
+                                }
+                                onClick={() => {
+                                    setSearchPage(searchPage + 1);
+                                }}
+                            />
+                        </FlexRow>
+                    </FlexItem>
+                )}
+            {selectedValue === "tab5" && (
+                <FlexItem noShrink>
+                    <SnapshotGallery />
+                </FlexItem>
+            )}
+            {selectedValue === "tab4" && (
+                <FlexItem noShrink>
+                    <RosterList
+                        entries={rosterEntries}
+                        currentMediaId={nowPlayingId}
+                    />
+                </FlexItem>
+            )}
+            {selectedValue === "tab3" && (
+                <FlexItem noShrink>
+                    <PermissionsEditor
+                        permissions={permissions}
+                        localUserIsOrganizer={localUserIsOrganizer}
+                        setPermissionRoles={setPermissionRoles}
+                    />
+                </FlexItem>
+            )}
         </>
     );
 };
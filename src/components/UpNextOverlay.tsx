@@ -0,0 +1,51 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import { Button, Image, Text } from "@fluentui/react-components";
+import { MediaItem } from "../utils/media-list";
+import { getUpNextOverlayStyles } from "../styles/styles";
+import { FlexColumn, FlexRow } from "./flex";
+
+interface IUpNextOverlayProps {
+    mediaItem: MediaItem | undefined;
+    secondsRemaining: number | undefined;
+    canCancel: boolean;
+    onCancel: () => void;
+}
+
+export const UpNextOverlay: FC<IUpNextOverlayProps> = ({
+    mediaItem,
+    secondsRemaining,
+    canCancel,
+    onCancel,
+}) => {
+    const styles = getUpNextOverlayStyles();
+    if (!mediaItem || secondsRemaining === undefined) {
+        return null;
+    }
+    return (
+        <FlexRow vAlign="center" gap="small" className={styles.root}>
+            {!!mediaItem.thumbnailImage && (
+                <Image
+                    src={mediaItem.thumbnailImage}
+                    fit="cover"
+                    className={styles.thumbnail}
+                />
+            )}
+            <FlexColumn>
+                <Text size={200}>{`Up next in ${secondsRemaining}s`}</Text>
+                <Text size={400} weight="semibold">
+                    {mediaItem.title}
+                </Text>
+            </FlexColumn>
+            {canCancel && (
+                <Button appearance="outline" onClick={onCancel}>
+                    {"Cancel"}
+                </Button>
+            )}
+        </FlexRow>
+    );
+};
@@ -0,0 +1,62 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { FC } from "react";
+import {
+    Button,
+    Popover,
+    PopoverSurface,
+    PopoverTrigger,
+    Slider,
+} from "@fluentui/react-components";
+import { Speaker220Filled, SpeakerMute20Filled } from "@fluentui/react-icons";
+import { FlexRow } from "./flex";
+
+interface IVolumeControlsProps {
+    muted: boolean;
+    volume: number;
+    setVolume: (volume: number) => void;
+    toggleMute: () => void;
+}
+
+/**
+ * Volume button that opens a slider for the local volume, along with a mute toggle.
+ * Volume is local to each user and is never synchronized.
+ */
+export const VolumeControls: FC<IVolumeControlsProps> = ({
+    muted,
+    volume,
+    setVolume,
+    toggleMute,
+}) => {
+    const icon =
+        muted || volume === 0 ? <SpeakerMute20Filled /> : <Speaker220Filled />;
+    return (
+        <Popover openOnHover positioning="above" withArrow>
+            <PopoverTrigger disableButtonEnhancement>
+                <Button icon={icon} appearance="transparent" title={"Volume"} />
+            </PopoverTrigger>
+            <PopoverSurface>
+                <FlexRow vAlign="center" gap="smaller">
+                    <Button
+                        icon={icon}
+                        appearance="transparent"
+                        title={muted ? "Unmute" : "Mute"}
+                        onClick={toggleMute}
+                    />
+                    <Slider
+                        min={0}
+                        max={100}
+                        value={muted ? 0 : Math.round(volume * 100)}
+                        aria-label="Volume"
+                        onChange={(ev, data) => {
+                            setVolume(data.value / 100);
+                        }}
+                    />
+                </FlexRow>
+            </PopoverSurface>
+        </Popover>
+    );
+};
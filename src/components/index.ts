@@ -5,6 +5,7 @@ import { PageError } from "./PageError";
 import { ListWrapper } from "./ListWrapper";
 import { FlexRow, FlexColumn, FlexItem } from "./flex";
 import { LiveSharePage } from "./LiveSharePage";
+import { UpNextOverlay } from "./UpNextOverlay";
 
 export {
     MediaPlayerContainer,
@@ -16,4 +17,5 @@ export {
     FlexColumn,
     FlexItem,
     LiveSharePage,
+    UpNextOverlay,
 };
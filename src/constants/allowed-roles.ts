@@ -2,7 +2,59 @@ import { UserMeetingRole } from "@microsoft/live-share";
 
 // Choose roles that can control playback (e.g., pause/play)
 // If empty or undefined, all users can control playback
+// The media session verifies every playback change against these roles when it starts, so the
+// permissions that drive synchronized playback can only be given to these roles
 export const ACCEPT_PLAYBACK_CHANGES_FROM = [
     UserMeetingRole.presenter,
     UserMeetingRole.organizer,
 ];
+
+// Actions that can be limited to certain meeting roles
+export type Permission =
+    | "playback"
+    | "changeTrack"
+    | "editPlaylist"
+    | "ink"
+    | "takeControl";
+
+// Roles allowed to perform each action. If empty, all users can perform it.
+export type PermissionMatrix = Record<Permission, UserMeetingRole[]>;
+
+// Roles shown in the permission matrix, from most to least privileged
+export const MEETING_ROLES = [
+    UserMeetingRole.organizer,
+    UserMeetingRole.presenter,
+    UserMeetingRole.attendee,
+    UserMeetingRole.guest,
+];
+
+// Permissions that make a user the one the media session follows. Other clients reject
+// playback changes from roles outside ACCEPT_PLAYBACK_CHANGES_FROM, so only those are assignable.
+export const SYNCHRONIZED_PERMISSIONS: Permission[] = [
+    "playback",
+    "takeControl",
+];
+
+/**
+ * Roles the organizer can give a permission to.
+ */
+export function getAssignableRoles(permission: Permission): UserMeetingRole[] {
+    if (
+        SYNCHRONIZED_PERMISSIONS.includes(permission) &&
+        ACCEPT_PLAYBACK_CHANGES_FROM.length > 0
+    ) {
+        return MEETING_ROLES.filter((role) =>
+            ACCEPT_PLAYBACK_CHANGES_FROM.includes(role)
+        );
+    }
+    return MEETING_ROLES;
+}
+
+// Permissions at the start of a meeting. The organizer can change them during the meeting.
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+    playback: ACCEPT_PLAYBACK_CHANGES_FROM,
+    changeTrack: ACCEPT_PLAYBACK_CHANGES_FROM,
+    editPlaylist: [],
+    ink: ACCEPT_PLAYBACK_CHANGES_FROM,
+    takeControl: ACCEPT_PLAYBACK_CHANGES_FROM,
+};
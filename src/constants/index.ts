@@ -1,6 +1,7 @@
 import { inTeams } from "../utils/inTeams";
 
 export * from "./allowed-roles";
+export * from "./media-catalog";
 export * from "./unique-keys";
 
 export const IN_TEAMS = inTeams();
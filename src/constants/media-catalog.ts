@@ -0,0 +1,4 @@
+// URL of a JSON file (ending in .json) or REST endpoint to load the media catalog from.
+// If undefined, the built-in searchList is used. A `catalogUrl` query parameter overrides
+// this, e.g. to point the app at a local mock server.
+export const MEDIA_CATALOG_URL: string | undefined = undefined;
@@ -6,9 +6,22 @@
 export const UNIQUE_KEYS = {
     notifications: "NOTIFICATIONS",
     media: "MEDIA",
+    playbackRate: "PLAYBACK-RATE",
     playlist: "PLAYLIST",
+    playlistOrder: "PLAYLIST-ORDER",
+    playlistModes: "PLAYLIST-MODES",
     selectedVideoId: "SELECTED-VIDEO-ID",
+    autoAdvance: "AUTO-ADVANCE",
+    upNext: "UP-NEXT",
+    bookmarks: "BOOKMARKS",
+    forceCaptions: "FORCE-CAPTIONS",
     presence: "PRESENCE",
     takeControl: "TAKE-CONTROL",
+    permissions: "PERMISSIONS",
+    controlRequests: "CONTROL-REQUESTS",
+    bringBack: "BRING-BACK",
     inking: "INKING",
+    inkAnchors: "INK-ANCHORS",
+    clearInkOnChange: "CLEAR-INK-ON-CHANGE",
+    inkCallouts: "INK-CALLOUTS",
 };
@@ -2,5 +2,17 @@ export * from "./usePresence";
 export * from "./useMediaSession";
 export * from "./useNotifications";
 export * from "./useTakeControl";
+export * from "./usePermissions";
 export * from "./usePlaylist";
 export * from "./useInkingManager";
+export * from "./useAutoAdvance";
+export * from "./useBookmarks";
+export * from "./useCaptions";
+export * from "./useSyncHealth";
+export * from "./usePlaybackStatus";
+export * from "./useRoster";
+export * from "./useIndependentViewers";
+export * from "./useInkAnchors";
+export * from "./useInkPersistence";
+export * from "./useInkCallouts";
+export * from "./useAudioDucking";
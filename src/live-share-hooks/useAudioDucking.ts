@@ -0,0 +1,207 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { LimitLevelType, VolumeManager } from "@microsoft/live-share-media";
+import { MediaPlayerAdapter } from "../utils/MediaPlayerAdapter";
+import {
+    SimulatedSpeakingStateSource,
+    speakingStateSource,
+} from "../utils/speaking-state";
+
+// Local storage key for the user's ducking settings
+const DUCKING_STORAGE_KEY = "audio-ducking";
+
+/**
+ * What happens to the media while someone in the meeting is speaking.
+ * - `off`: nothing.
+ * - `limit`: the volume is lowered to `limitLevel` of the user's volume.
+ * - `pause`: the media pauses, and resumes once nobody is speaking.
+ */
+export type DuckingMode = "off" | "limit" | "pause";
+
+const DUCKING_MODES: DuckingMode[] = ["off", "limit", "pause"];
+
+// Longest fade the settings allow, in seconds
+export const MAX_DUCKING_RAMP_DURATION = 3;
+
+export interface IDuckingSettings {
+    mode: DuckingMode;
+    // Fraction of the user's volume to play at while someone is speaking
+    limitLevel: number;
+    // Seconds to fade down when speech starts
+    rampDownDuration: number;
+    // Seconds to fade back up when speech ends
+    rampUpDuration: number;
+}
+
+// Set when running outside of Teams, so speech can be simulated for testing
+const simulatedSpeakingStateSource =
+    speakingStateSource instanceof SimulatedSpeakingStateSource
+        ? speakingStateSource
+        : undefined;
+
+export const DEFAULT_DUCKING_SETTINGS: IDuckingSettings = {
+    mode: "limit",
+    limitLevel: 0.3,
+    rampDownDuration: 0.5,
+    rampUpDuration: 1.5,
+};
+
+/**
+ * Hook that applies the local user's audio ducking settings when the meeting reports speech
+ *
+ * @remarks
+ * Settings are local to each user and remembered on their device. In `pause` mode the
+ * presenter pauses and resumes for everyone, while followers pause locally and rejoin the
+ * group when speech ends. Outside of Teams, speech is simulated with `simulateSpeaking`.
+ */
+export const useAudioDucking = (
+    player: MediaPlayerAdapter | null,
+    volumeManager: VolumeManager | undefined,
+    localUserIsPresenting: boolean,
+    suspended: boolean,
+    play: () => void,
+    pause: () => void,
+    endSuspension: () => void
+) => {
+    const [duckingSettings, setDuckingSettingsState] =
+        useState<IDuckingSettings>(loadDuckingSettings);
+    const [isSpeaking, setIsSpeaking] = useState(
+        speakingStateSource.isSpeaking
+    );
+    // Set when the media was paused because of speech, and whether the user was suspended
+    const pausedForSpeechRef = useRef<{ wasSuspended: boolean }>();
+    // Whether speech was pausing the media the last time it was checked
+    const shouldPauseRef = useRef(false);
+
+    const setDuckingSettings = useCallback(
+        (settings: Partial<IDuckingSettings>) => {
+            setDuckingSettingsState((prevSettings) => {
+                const nextSettings = { ...prevSettings, ...settings };
+                saveDuckingSettings(nextSettings);
+                return nextSettings;
+            });
+        },
+        []
+    );
+
+    useEffect(() => {
+        return speakingStateSource.subscribe(setIsSpeaking);
+    }, []);
+
+    // Limit mode: fade the volume down relative to the user's volume while speech is detected
+    useEffect(() => {
+        if (!volumeManager) return;
+        volumeManager.limitLevelType = LimitLevelType.percentage;
+        volumeManager.limitLevel = duckingSettings.limitLevel;
+        const shouldLimit = isSpeaking && duckingSettings.mode === "limit";
+        if (shouldLimit) {
+            volumeManager.volumeChangeDuration =
+                duckingSettings.rampDownDuration;
+            // Also re-applies a changed limit level while already limiting
+            volumeManager.startLimiting();
+        } else if (volumeManager.isLimiting) {
+            volumeManager.volumeChangeDuration = duckingSettings.rampUpDuration;
+            volumeManager.stopLimiting();
+        }
+    }, [volumeManager, isSpeaking, duckingSettings]);
+
+    // Pause mode: pause when speech starts, then resume when it ends
+    useEffect(() => {
+        if (!player) return;
+        const shouldPause = isSpeaking && duckingSettings.mode === "pause";
+        // Only act when speech starts or ends, so the user can still play during speech
+        if (shouldPause === shouldPauseRef.current) return;
+        shouldPauseRef.current = shouldPause;
+        if (shouldPause && !player.paused && !pausedForSpeechRef.current) {
+            pausedForSpeechRef.current = { wasSuspended: suspended };
+            pause();
+        } else if (!shouldPause && pausedForSpeechRef.current) {
+            const { wasSuspended } = pausedForSpeechRef.current;
+            pausedForSpeechRef.current = undefined;
+            if (localUserIsPresenting || wasSuspended) {
+                play();
+            } else {
+                // Catch up with the group, which may have kept playing
+                endSuspension();
+            }
+        }
+    }, [
+        player,
+        isSpeaking,
+        duckingSettings.mode,
+        localUserIsPresenting,
+        suspended,
+        play,
+        pause,
+        endSuspension,
+    ]);
+
+    return {
+        duckingSettings,
+        setDuckingSettings,
+        isSpeaking,
+        simulateSpeaking: simulatedSpeakingStateSource
+            ? simulateSpeaking
+            : undefined,
+    };
+};
+
+function simulateSpeaking(isSpeaking: boolean) {
+    simulatedSpeakingStateSource?.setSpeaking(isSpeaking);
+}
+
+function loadDuckingSettings(): IDuckingSettings {
+    try {
+        const value = JSON.parse(
+            localStorage.getItem(DUCKING_STORAGE_KEY) ?? "null"
+        );
+        if (value && typeof value === "object") {
+            // Fall back to the default for any setting that is missing or out of range
+            return {
+                mode: DUCKING_MODES.includes(value.mode)
+                    ? value.mode
+                    : DEFAULT_DUCKING_SETTINGS.mode,
+                limitLevel: getNumberInRange(
+                    value.limitLevel,
+                    1,
+                    DEFAULT_DUCKING_SETTINGS.limitLevel
+                ),
+                rampDownDuration: getNumberInRange(
+                    value.rampDownDuration,
+                    MAX_DUCKING_RAMP_DURATION,
+                    DEFAULT_DUCKING_SETTINGS.rampDownDuration
+                ),
+                rampUpDuration: getNumberInRange(
+                    value.rampUpDuration,
+                    MAX_DUCKING_RAMP_DURATION,
+                    DEFAULT_DUCKING_SETTINGS.rampUpDuration
+                ),
+            };
+        }
+    } catch (error) {
+        console.error(error);
+    }
+    return DEFAULT_DUCKING_SETTINGS;
+}
+
+function getNumberInRange(
+    value: unknown,
+    max: number,
+    defaultValue: number
+): number {
+    return typeof value === "number" && value >= 0 && value <= max
+        ? value
+        : defaultValue;
+}
+
+function saveDuckingSettings(settings: IDuckingSettings) {
+    try {
+        localStorage.setItem(DUCKING_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error(error);
+    }
+}
@@ -0,0 +1,186 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+    useLiveShareContext,
+    useSharedState,
+} from "@microsoft/live-share-react";
+import { UNIQUE_KEYS } from "../constants";
+import { MediaItem } from "../utils/media-list";
+import { MediaPlayerAdapter, PlayerEvent } from "../utils/MediaPlayerAdapter";
+
+// How long the "Up next" countdown lasts before advancing
+const AUTO_ADVANCE_DELAY_MS = 5000;
+
+export interface IUpNext {
+    // ID of the media item that will be selected
+    mediaId: string;
+    // Global timestamp (from timestampProvider) at which the presenter advances
+    advanceAt: number;
+}
+
+/**
+ * Hook that advances to the next playlist item when the current track ends
+ *
+ * @remarks
+ * The enabled flag and the pending countdown are shared, so every client shows the same
+ * "Up next" overlay. Only the presenting client starts, cancels and performs the advance.
+ * `upcomingMediaItem` follows the playlist's repeat mode; when it is the track that just
+ * ended (repeat one), the track restarts right away without a countdown.
+ */
+export const useAutoAdvance = (
+    player: MediaPlayerAdapter | null,
+    localUserIsPresenting: boolean,
+    selectedMediaItem: MediaItem | undefined,
+    upcomingMediaItem: MediaItem | undefined,
+    selectMediaId: (mediaId: string) => void,
+    play: () => void,
+    seekTo: (time: number) => void,
+    sendNotification: (text: string) => void
+) => {
+    const { timestampProvider } = useLiveShareContext();
+    const [autoAdvanceEnabled, setAutoAdvanceEnabledState] =
+        useSharedState<boolean>(UNIQUE_KEYS.autoAdvance, true);
+    const [upNext, setUpNext] = useSharedState<IUpNext | undefined>(
+        UNIQUE_KEYS.upNext,
+        undefined
+    );
+    // Seconds left in the countdown, for display
+    const [secondsRemaining, setSecondsRemaining] = useState<number>();
+    // ID of the track the presenter advanced to, until it has loaded and started playing
+    const playAfterAdvanceRef = useRef<string>();
+    // Latest play callback, for when the advanced track has loaded
+    const playRef = useRef(play);
+    playRef.current = play;
+
+    const setAutoAdvanceEnabled = useCallback(
+        (enabled: boolean) => {
+            if (!localUserIsPresenting) return;
+            setAutoAdvanceEnabledState(enabled);
+            if (!enabled) {
+                setUpNext(undefined);
+            }
+            sendNotification(`turned ${enabled ? "on" : "off"} auto-advance`);
+        },
+        [
+            localUserIsPresenting,
+            setAutoAdvanceEnabledState,
+            setUpNext,
+            sendNotification,
+        ]
+    );
+
+    const cancelUpNext = useCallback(() => {
+        if (!localUserIsPresenting || !upNext) return;
+        setUpNext(undefined);
+        sendNotification("cancelled up next");
+    }, [localUserIsPresenting, upNext, setUpNext, sendNotification]);
+
+    // Presenter starts the countdown when the track ends
+    useEffect(() => {
+        if (!player || !localUserIsPresenting) return;
+        const onEnded = () => {
+            if (!autoAdvanceEnabled || !upcomingMediaItem || !timestampProvider)
+                return;
+            if (upcomingMediaItem.id === selectedMediaItem?.id) {
+                seekTo(0);
+                play();
+                return;
+            }
+            setUpNext({
+                mediaId: upcomingMediaItem.id,
+                advanceAt:
+                    timestampProvider.getTimestamp() + AUTO_ADVANCE_DELAY_MS,
+            });
+        };
+        player.addEventListener("ended", onEnded);
+        return () => {
+            player.removeEventListener("ended", onEnded);
+        };
+    }, [
+        player,
+        localUserIsPresenting,
+        autoAdvanceEnabled,
+        upcomingMediaItem,
+        selectedMediaItem?.id,
+        timestampProvider,
+        setUpNext,
+        seekTo,
+        play,
+    ]);
+
+    // Presenter advances once the countdown is over
+    useEffect(() => {
+        if (!upNext || !localUserIsPresenting || !timestampProvider) return;
+        const delay = Math.max(
+            0,
+            upNext.advanceAt - timestampProvider.getTimestamp()
+        );
+        const timeout = setTimeout(() => {
+            setUpNext(undefined);
+            if (upcomingMediaItem?.id !== upNext.mediaId) return;
+            playAfterAdvanceRef.current = upNext.mediaId;
+            selectMediaId(upNext.mediaId);
+        }, delay);
+        return () => {
+            clearTimeout(timeout);
+        };
+    }, [
+        upNext,
+        localUserIsPresenting,
+        timestampProvider,
+        upcomingMediaItem,
+        selectMediaId,
+        setUpNext,
+    ]);
+
+    // Start playing the new track once the synchronizer has loaded it into the player
+    useEffect(() => {
+        const mediaId = selectedMediaItem?.id;
+        if (!player || !mediaId || playAfterAdvanceRef.current !== mediaId) {
+            return;
+        }
+        if (!localUserIsPresenting) {
+            playAfterAdvanceRef.current = undefined;
+            return;
+        }
+        const onCanPlay = () => {
+            if (playAfterAdvanceRef.current !== mediaId) return;
+            playAfterAdvanceRef.current = undefined;
+            playRef.current();
+        };
+        player.addEventListener(PlayerEvent.canPlay, onCanPlay);
+        return () => {
+            player.removeEventListener(PlayerEvent.canPlay, onCanPlay);
+        };
+    }, [player, localUserIsPresenting, selectedMediaItem?.id]);
+
+    // Update the countdown shown to every client
+    useEffect(() => {
+        if (!upNext || !timestampProvider) {
+            setSecondsRemaining(undefined);
+            return;
+        }
+        const updateCountdown = () => {
+            const milliRemaining =
+                upNext.advanceAt - timestampProvider.getTimestamp();
+            setSecondsRemaining(Math.max(0, Math.ceil(milliRemaining / 1000)));
+        };
+        updateCountdown();
+        const interval = setInterval(updateCountdown, 250);
+        return () => {
+            clearInterval(interval);
+        };
+    }, [upNext, timestampProvider]);
+
+    return {
+        autoAdvanceEnabled,
+        setAutoAdvanceEnabled,
+        upNext,
+        upNextSecondsRemaining: secondsRemaining,
+        cancelUpNext,
+    };
+};
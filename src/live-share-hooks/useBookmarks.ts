@@ -0,0 +1,86 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useMemo } from "react";
+import { LivePresenceUser } from "@microsoft/live-share";
+import { useLiveShareContext, useSharedMap } from "@microsoft/live-share-react";
+import { v4 } from "uuid";
+import { UNIQUE_KEYS } from "../constants";
+import { MediaItem } from "../utils/media-list";
+import { formatTimeValue } from "../utils/format";
+import { IUserData } from "./usePresence";
+
+export interface IBookmark {
+    id: string;
+    // Media time in seconds
+    time: number;
+    title: string;
+    createdBy?: string;
+    createdAt: number;
+}
+
+/**
+ * Hook for timeline bookmarks on the selected media item
+ *
+ * @remarks
+ * Each media item has its own `SharedMap` of bookmarks, so switching tracks only loads the
+ * bookmarks for that track. Anyone in the meeting can add or remove bookmarks.
+ */
+export const useBookmarks = (
+    selectedMediaItem: MediaItem | undefined,
+    localUser: LivePresenceUser<IUserData> | undefined,
+    sendNotification: (text: string) => void
+) => {
+    const { timestampProvider } = useLiveShareContext();
+    const {
+        map: bookmarkMap,
+        setEntry,
+        deleteEntry,
+    } = useSharedMap<IBookmark>(
+        `${UNIQUE_KEYS.bookmarks}-${selectedMediaItem?.id ?? "none"}`
+    );
+
+    const bookmarks = useMemo(
+        () => [...bookmarkMap.values()].sort((a, b) => a.time - b.time),
+        [bookmarkMap]
+    );
+
+    const addBookmark = useCallback(
+        (time: number, title?: string) => {
+            if (!selectedMediaItem) return;
+            const bookmark: IBookmark = {
+                id: v4(),
+                time,
+                title: title?.trim() || `Bookmark at ${formatTimeValue(time)}`,
+                createdBy: localUser?.displayName,
+                createdAt: timestampProvider?.getTimestamp() ?? Date.now(),
+            };
+            setEntry(bookmark.id, bookmark);
+            sendNotification(`added a bookmark at ${formatTimeValue(time)}`);
+        },
+        [
+            selectedMediaItem,
+            localUser,
+            timestampProvider,
+            setEntry,
+            sendNotification,
+        ]
+    );
+
+    const removeBookmark = useCallback(
+        (id: string) => {
+            if (!bookmarkMap.has(id)) return;
+            deleteEntry(id);
+            sendNotification("removed a bookmark");
+        },
+        [bookmarkMap, deleteEntry, sendNotification]
+    );
+
+    return {
+        bookmarks,
+        addBookmark,
+        removeBookmark,
+    };
+};
@@ -0,0 +1,132 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSharedState } from "@microsoft/live-share-react";
+import { UNIQUE_KEYS } from "../constants";
+import { ISubtitleTrack, MediaItem } from "../utils/media-list";
+import { ITextCue, parseSubtitles } from "../utils/webvtt";
+
+// Local storage key for the language each user last picked
+const CAPTIONS_LANGUAGE_STORAGE_KEY = "captions-language";
+
+/**
+ * Hook for the subtitles of the selected media item
+ *
+ * @remarks
+ * Each user picks their own caption language, which is remembered on their device. The
+ * presenter can force captions on for everyone through a shared state; users who had
+ * captions off then see the track that best matches their browser language.
+ * Captions are rendered by the app rather than the player, so they work with every
+ * media player adapter.
+ */
+export const useCaptions = (
+    localUserIsPresenting: boolean,
+    selectedMediaItem: MediaItem | undefined,
+    sendNotification: (text: string) => void
+) => {
+    const [forceCaptions, setForceCaptionsState] = useSharedState<boolean>(
+        UNIQUE_KEYS.forceCaptions,
+        false
+    );
+    // Language the local user picked, or undefined if they turned captions off
+    const [captionsLanguage, setCaptionsLanguageState] = useState<
+        string | undefined
+    >(() => localStorage.getItem(CAPTIONS_LANGUAGE_STORAGE_KEY) ?? undefined);
+    const [cues, setCues] = useState<ITextCue[]>([]);
+
+    const subtitleTracks = useMemo(
+        () => selectedMediaItem?.subtitles ?? [],
+        [selectedMediaItem?.subtitles]
+    );
+
+    const activeTrack: ISubtitleTrack | undefined = useMemo(() => {
+        if (subtitleTracks.length === 0) return undefined;
+        if (captionsLanguage) {
+            const track = findTrack(subtitleTracks, captionsLanguage);
+            if (track) return track;
+        }
+        if (!captionsLanguage && !forceCaptions) return undefined;
+        return (
+            findTrack(subtitleTracks, navigator.language) ?? subtitleTracks[0]
+        );
+    }, [subtitleTracks, captionsLanguage, forceCaptions]);
+
+    const setCaptionsLanguage = useCallback((language: string | undefined) => {
+        setCaptionsLanguageState(language);
+        if (language) {
+            localStorage.setItem(CAPTIONS_LANGUAGE_STORAGE_KEY, language);
+        } else {
+            localStorage.removeItem(CAPTIONS_LANGUAGE_STORAGE_KEY);
+        }
+    }, []);
+
+    const setForceCaptions = useCallback(
+        (force: boolean) => {
+            if (!localUserIsPresenting) return;
+            setForceCaptionsState(force);
+            sendNotification(
+                force
+                    ? "turned on captions for everyone"
+                    : "stopped forcing captions"
+            );
+        },
+        [localUserIsPresenting, setForceCaptionsState, sendNotification]
+    );
+
+    // Load the cues of the active track
+    useEffect(() => {
+        setCues([]);
+        if (!activeTrack) return;
+        let cancelled = false;
+        fetch(activeTrack.src)
+            .then((response) => {
+                if (!response.ok) {
+                    throw new Error(
+                        `useCaptions: request failed with status ${response.status}`
+                    );
+                }
+                return response.text();
+            })
+            .then((text) => {
+                if (cancelled) return;
+                setCues(parseSubtitles(text));
+            })
+            .catch((error) => {
+                console.error(error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [activeTrack]);
+
+    return {
+        subtitleTracks,
+        activeTrack,
+        captionsLanguage,
+        setCaptionsLanguage,
+        forceCaptions,
+        setForceCaptions,
+        cues,
+    };
+};
+
+// Find a track by exact language, then by primary language (e.g. "en" for "en-US")
+function findTrack(
+    tracks: ISubtitleTrack[],
+    language: string
+): ISubtitleTrack | undefined {
+    const lowerLanguage = language.toLowerCase();
+    const primaryLanguage = lowerLanguage.split("-")[0];
+    return (
+        tracks.find(
+            (track) => track.language.toLowerCase() === lowerLanguage
+        ) ??
+        tracks.find(
+            (track) =>
+                track.language.toLowerCase().split("-")[0] === primaryLanguage
+        )
+    );
+}
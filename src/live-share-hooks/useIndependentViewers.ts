@@ -0,0 +1,85 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { LivePresenceUser, PresenceState } from "@microsoft/live-share";
+import { useLiveEvent } from "@microsoft/live-share-react";
+import { UNIQUE_KEYS } from "../constants";
+import { IUserData } from "./usePresence";
+import { IRosterEntry } from "./useRoster";
+
+export interface IBringBackEvent {
+    // User ID of the presenter who asked everyone to follow again
+    presenterId: string;
+}
+
+/**
+ * Hook that lets the presenter see who is watching independently and bring them back
+ *
+ * @remarks
+ * Followers that play, pause or seek on their own suspend their media session, which they
+ * publish through presence. The presenter can send a "bring back" event that makes every
+ * suspended client end its suspension. Events from anyone other than the current presenter
+ * are ignored.
+ */
+export const useIndependentViewers = (
+    users: LivePresenceUser<IUserData>[],
+    rosterEntries: IRosterEntry[],
+    localUserId: string | undefined,
+    localUserIsPresenting: boolean,
+    presentingUserId: string | undefined,
+    suspended: boolean,
+    endSuspension: () => void,
+    sendNotification: (text: string) => void
+) => {
+    const { latestEvent, sendEvent } = useLiveEvent<IBringBackEvent>(
+        UNIQUE_KEYS.bringBack
+    );
+    // Last event acted on, so each request is handled once
+    const handledEventRef = useRef(latestEvent);
+
+    // Other online users who stopped following the presenter
+    const independentViewers = useMemo(
+        () =>
+            rosterEntries.filter(
+                (entry) =>
+                    entry.suspended &&
+                    !entry.isLocalUser &&
+                    entry.state !== PresenceState.offline
+            ),
+        [rosterEntries]
+    );
+
+    const bringEveryoneBack = useCallback(() => {
+        if (!localUserIsPresenting || !localUserId) return;
+        sendEvent({ presenterId: localUserId }).catch((error: Error) => {
+            console.error(error);
+        });
+        sendNotification("brought everyone back to the presenter");
+    }, [localUserIsPresenting, localUserId, sendEvent, sendNotification]);
+
+    // Suspended followers end their suspension when the presenter asks
+    useEffect(() => {
+        if (latestEvent === handledEventRef.current) return;
+        handledEventRef.current = latestEvent;
+        if (!latestEvent || latestEvent.local || !suspended) return;
+        const sender = users.find(
+            (user) => !!user.getConnection(latestEvent.clientId)
+        );
+        if (
+            !sender ||
+            sender.userId !== presentingUserId ||
+            sender.userId !== latestEvent.value.presenterId
+        ) {
+            return;
+        }
+        endSuspension();
+    }, [latestEvent, users, presentingUserId, suspended, endSuspension]);
+
+    return {
+        independentViewers,
+        bringEveryoneBack,
+    };
+};
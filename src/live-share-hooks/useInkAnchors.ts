@@ -0,0 +1,307 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+import {
+    ClearEvent,
+    InkingManager,
+    IStroke,
+    StrokesAddedEvent,
+    StrokesRemovedEvent,
+} from "@microsoft/live-share-canvas";
+import { useSharedMap, useSharedState } from "@microsoft/live-share-react";
+import { UNIQUE_KEYS } from "../constants";
+import { MediaItem } from "../utils/media-list";
+import { MediaPlayerAdapter, PlayerEvent } from "../utils/MediaPlayerAdapter";
+
+// Strokes show from shortly before the media time they were drawn at...
+export const INK_VISIBLE_BEFORE_SECONDS = 0.5;
+// ...until a few seconds after it
+export const INK_VISIBLE_AFTER_SECONDS = 3;
+// Fallback for strokes that arrive while nothing is playing
+const VISIBILITY_REFRESH_INTERVAL_MS = 1000;
+
+export interface IInkAnchor {
+    // ID of the media item the stroke was drawn on
+    mediaId: string;
+    // Media time in seconds the stroke was drawn at
+    mediaTime: number;
+}
+
+/**
+ * Whether a stroke anchored at `anchor` should be visible at `currentTime` of `mediaId`.
+ */
+export function isInkAnchorVisible(
+    anchor: IInkAnchor,
+    mediaId: string | undefined,
+    currentTime: number
+): boolean {
+    return (
+        anchor.mediaId === mediaId &&
+        currentTime >= anchor.mediaTime - INK_VISIBLE_BEFORE_SECONDS &&
+        currentTime <= anchor.mediaTime + INK_VISIBLE_AFTER_SECONDS
+    );
+}
+
+/**
+ * Hook that anchors ink strokes to the media item and time they were drawn at
+ *
+ * @remarks
+ * `LiveCanvas` keeps a single layer of strokes, so the media item and time of each stroke
+ * are kept in a companion `SharedMap` keyed by stroke ID, written by the client that drew
+ * it. Each client then hides strokes outside of their window locally, without telling
+ * `LiveCanvas`, and shows them again when playback gets back to them. A stroke stays
+ * visible while the player is paused within its window, so frames can be annotated and
+ * replayed later. Strokes without an anchor, such as ones drawn with nothing loaded, are
+ * always visible.
+ *
+ * Since only strokes anchored to the selected media item are shown, each media item has its
+ * own layer of ink, which comes back when switching back to it. The presenter can choose to
+ * clear a layer, including its text callouts, whenever they seek or leave that media item
+ * instead.
+ */
+export const useInkAnchors = (
+    inkingManager: InkingManager | undefined,
+    player: MediaPlayerAdapter | null,
+    selectedMediaItem: MediaItem | undefined,
+    localUserIsPresenting: boolean,
+    localUserCanInk: boolean,
+    removeInkCalloutsForMedia: (mediaId: string) => void,
+    clearInkCallouts: () => void,
+    sendNotification: (text: string) => void
+) => {
+    const {
+        map: inkAnchors,
+        setEntry,
+        deleteEntry,
+        sharedMap,
+    } = useSharedMap<IInkAnchor>(UNIQUE_KEYS.inkAnchors);
+    const [clearInkOnChange, setClearInkOnChangeState] =
+        useSharedState<boolean>(UNIQUE_KEYS.clearInkOnChange, false);
+    // Strokes hidden on this client, so they can be shown again
+    const hiddenStrokesRef = useRef(new Map<string, IStroke>());
+    // Media item that was selected when the selection last changed
+    const previousMediaIdRef = useRef(selectedMediaItem?.id);
+
+    // Anchor strokes drawn or erased by the local user.
+    // Strokes shown, hidden or received through LiveCanvas don't emit the stroke events,
+    // but LiveCanvas applies a remote clear with clear(), which emits ClearEvent on every
+    // client. So the anchors are only cleared by the client that clears the ink.
+    useEffect(() => {
+        if (!inkingManager) return;
+        const onStrokesAdded = (strokes: IStroke[]) => {
+            if (!player || !selectedMediaItem) return;
+            strokes.forEach((stroke) => {
+                // Strokes added by addAnchoredStroke are already anchored
+                if (sharedMap?.get(stroke.id)) return;
+                setEntry(stroke.id, {
+                    mediaId: selectedMediaItem.id,
+                    mediaTime: player.currentTime,
+                });
+            });
+        };
+        const onStrokesRemoved = (ids: string[]) => {
+            ids.forEach((id) => {
+                hiddenStrokesRef.current.delete(id);
+                deleteEntry(id);
+            });
+        };
+        const onClear = () => {
+            hiddenStrokesRef.current.clear();
+        };
+        inkingManager.on(StrokesAddedEvent, onStrokesAdded);
+        inkingManager.on(StrokesRemovedEvent, onStrokesRemoved);
+        inkingManager.on(ClearEvent, onClear);
+        return () => {
+            inkingManager.off(StrokesAddedEvent, onStrokesAdded);
+            inkingManager.off(StrokesRemovedEvent, onStrokesRemoved);
+            inkingManager.off(ClearEvent, onClear);
+        };
+    }, [
+        inkingManager,
+        player,
+        selectedMediaItem,
+        setEntry,
+        deleteEntry,
+        sharedMap,
+    ]);
+
+    const updateVisibility = useCallback(() => {
+        if (!inkingManager) return;
+        const hiddenStrokes = hiddenStrokesRef.current;
+        const currentTime = player?.currentTime ?? 0;
+        const options = { addToChangeLog: false };
+        inkAnchors.forEach((anchor, id) => {
+            const hiddenStroke = hiddenStrokes.get(id);
+            if (
+                isInkAnchorVisible(anchor, selectedMediaItem?.id, currentTime)
+            ) {
+                if (!hiddenStroke) return;
+                hiddenStrokes.delete(id);
+                inkingManager.addStroke(hiddenStroke, options);
+            } else {
+                // LiveCanvas may have re-added a hidden stroke that was changed remotely
+                const stroke = inkingManager.getStroke(id);
+                if (!stroke) return;
+                hiddenStrokes.set(id, stroke);
+                inkingManager.removeStroke(id, options);
+            }
+        });
+        // Forget strokes that were erased or cleared by someone else while hidden
+        [...hiddenStrokes.keys()].forEach((id) => {
+            if (!inkAnchors.has(id)) {
+                hiddenStrokes.delete(id);
+            }
+        });
+    }, [inkingManager, player, selectedMediaItem?.id, inkAnchors]);
+
+    // Remove every stroke drawn on a media item, including the ones hidden on this client
+    const clearLayer = useCallback(
+        (mediaId: string) => {
+            if (!inkingManager) return;
+            const hiddenStrokes = hiddenStrokesRef.current;
+            inkingManager.beginUpdate();
+            inkAnchors.forEach((anchor, id) => {
+                if (anchor.mediaId !== mediaId) return;
+                // LiveCanvas only hears about removing strokes that are shown
+                const hiddenStroke = hiddenStrokes.get(id);
+                if (hiddenStroke) {
+                    hiddenStrokes.delete(id);
+                    inkingManager.addStroke(hiddenStroke, {
+                        addToChangeLog: false,
+                    });
+                }
+                inkingManager.removeStroke(id);
+            });
+            inkingManager.endUpdate();
+            removeInkCalloutsForMedia(mediaId);
+        },
+        [inkingManager, inkAnchors, removeInkCalloutsForMedia]
+    );
+
+    // Every anchored stroke, including the ones hidden on this client
+    const getAnchoredStrokes = useCallback(() => {
+        const anchoredStrokes: { stroke: IStroke; anchor: IInkAnchor }[] = [];
+        inkAnchors.forEach((anchor, id) => {
+            const stroke =
+                inkingManager?.getStroke(id) ??
+                hiddenStrokesRef.current.get(id);
+            if (stroke) {
+                anchoredStrokes.push({ stroke, anchor });
+            }
+        });
+        return anchoredStrokes;
+    }, [inkingManager, inkAnchors]);
+
+    // Add a stroke for everyone, anchored to the given media time rather than the current one
+    const addAnchoredStroke = useCallback(
+        (stroke: IStroke, anchor: IInkAnchor) => {
+            if (!inkingManager) return;
+            setEntry(stroke.id, anchor);
+            inkingManager.addStroke(stroke);
+        },
+        [inkingManager, setEntry]
+    );
+
+    const setClearInkOnChange = useCallback(
+        (enabled: boolean) => {
+            if (!localUserIsPresenting) return;
+            setClearInkOnChangeState(enabled);
+            sendNotification(
+                `turned ${
+                    enabled ? "on" : "off"
+                } clearing ink on seek and track change`
+            );
+        },
+        [localUserIsPresenting, setClearInkOnChangeState, sendNotification]
+    );
+
+    const clearAllInk = useCallback(() => {
+        if (!inkingManager || !localUserCanInk) return;
+        inkingManager.clear();
+        sharedMap?.clear();
+        clearInkCallouts();
+        sendNotification("cleared all ink");
+    }, [
+        inkingManager,
+        localUserCanInk,
+        sharedMap,
+        clearInkCallouts,
+        sendNotification,
+    ]);
+
+    // Presenter clears the previous media item's ink when the selection changes
+    useEffect(() => {
+        const previousMediaId = previousMediaIdRef.current;
+        if (previousMediaId === selectedMediaItem?.id) return;
+        previousMediaIdRef.current = selectedMediaItem?.id;
+        if (!previousMediaId || !localUserIsPresenting || !clearInkOnChange)
+            return;
+        clearLayer(previousMediaId);
+    }, [
+        selectedMediaItem?.id,
+        localUserIsPresenting,
+        clearInkOnChange,
+        clearLayer,
+    ]);
+
+    // Presenter clears the current media item's ink when seeking
+    useEffect(() => {
+        if (
+            !player ||
+            !selectedMediaItem ||
+            !localUserIsPresenting ||
+            !clearInkOnChange
+        )
+            return;
+        const mediaId = selectedMediaItem.id;
+        const onSeeked = () => {
+            clearLayer(mediaId);
+        };
+        player.addEventListener(PlayerEvent.seeked, onSeeked);
+        return () => {
+            player.removeEventListener(PlayerEvent.seeked, onSeeked);
+        };
+    }, [
+        player,
+        selectedMediaItem,
+        localUserIsPresenting,
+        clearInkOnChange,
+        clearLayer,
+    ]);
+
+    useEffect(() => {
+        updateVisibility();
+        if (!player) return;
+        const events = [
+            PlayerEvent.timeUpdate,
+            PlayerEvent.seeked,
+            PlayerEvent.pause,
+            PlayerEvent.loadedMetadata,
+        ];
+        events.forEach((event) => {
+            player.addEventListener(event, updateVisibility);
+        });
+        const interval = setInterval(
+            updateVisibility,
+            VISIBILITY_REFRESH_INTERVAL_MS
+        );
+        return () => {
+            events.forEach((event) => {
+                player.removeEventListener(event, updateVisibility);
+            });
+            clearInterval(interval);
+        };
+    }, [player, updateVisibility]);
+
+    return {
+        inkAnchors,
+        clearInkOnChange,
+        setClearInkOnChange,
+        clearAllInk,
+        getAnchoredStrokes,
+        addAnchoredStroke,
+    };
+};
@@ -0,0 +1,108 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useMemo } from "react";
+import {
+    InkingManager,
+    IPoint,
+    toCssRgbaColor,
+} from "@microsoft/live-share-canvas";
+import { useSharedMap } from "@microsoft/live-share-react";
+import { v4 } from "uuid";
+import { UNIQUE_KEYS } from "../constants";
+import { IInkText } from "../utils/ink-tools";
+import { MediaItem } from "../utils/media-list";
+import { MediaPlayerAdapter } from "../utils/MediaPlayerAdapter";
+import { IInkAnchor } from "./useInkAnchors";
+
+export interface IInkCallout extends IInkAnchor, IInkText {
+    id: string;
+}
+
+/**
+ * Hook for text callouts drawn over the video
+ *
+ * @remarks
+ * `LiveCanvas` only syncs strokes, so callouts are kept in their own `SharedMap`. They use
+ * the same ink coordinates and anchors as strokes, so they scale with the video and show
+ * around the media time they were placed at. Clearing the ink clears callouts too.
+ */
+export const useInkCallouts = (
+    inkingManager: InkingManager | undefined,
+    player: MediaPlayerAdapter | null,
+    selectedMediaItem: MediaItem | undefined,
+    localUserCanInk: boolean
+) => {
+    const {
+        map: calloutMap,
+        setEntry,
+        deleteEntry,
+        sharedMap,
+    } = useSharedMap<IInkCallout>(UNIQUE_KEYS.inkCallouts);
+
+    const inkCallouts = useMemo(() => [...calloutMap.values()], [calloutMap]);
+
+    const addInkCallout = useCallback(
+        (position: IPoint, text: string) => {
+            if (!inkingManager || !player || !selectedMediaItem) return;
+            if (!localUserCanInk || !text.trim()) return;
+            const callout: IInkCallout = {
+                id: v4(),
+                text: text.trim(),
+                x: position.x,
+                y: position.y,
+                color: toCssRgbaColor(inkingManager.penBrush.color),
+                mediaId: selectedMediaItem.id,
+                mediaTime: player.currentTime,
+            };
+            setEntry(callout.id, callout);
+        },
+        [inkingManager, player, selectedMediaItem, localUserCanInk, setEntry]
+    );
+
+    // Add a callout as it was saved, such as from an ink file
+    const restoreInkCallout = useCallback(
+        (callout: IInkCallout) => {
+            if (!localUserCanInk) return;
+            setEntry(callout.id, callout);
+        },
+        [localUserCanInk, setEntry]
+    );
+
+    const removeInkCallout = useCallback(
+        (id: string) => {
+            if (!localUserCanInk) return;
+            deleteEntry(id);
+        },
+        [localUserCanInk, deleteEntry]
+    );
+
+    // Remove the callouts placed on a media item, when its ink layer is cleared
+    const removeInkCalloutsForMedia = useCallback(
+        (mediaId: string) => {
+            calloutMap.forEach((callout) => {
+                if (callout.mediaId === mediaId) {
+                    deleteEntry(callout.id);
+                }
+            });
+        },
+        [calloutMap, deleteEntry]
+    );
+
+    // Remove every callout, when all ink is cleared. Only the client clearing the ink calls
+    // this, since every client hears about a clear through LiveCanvas.
+    const clearInkCallouts = useCallback(() => {
+        sharedMap?.clear();
+    }, [sharedMap]);
+
+    return {
+        inkCallouts,
+        addInkCallout,
+        restoreInkCallout,
+        removeInkCallout,
+        removeInkCalloutsForMedia,
+        clearInkCallouts,
+    };
+};
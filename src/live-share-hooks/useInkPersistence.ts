@@ -0,0 +1,152 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { IStroke, Stroke } from "@microsoft/live-share-canvas";
+import {
+    createInkFile,
+    IInkFileCallout,
+    IInkFileStroke,
+} from "../utils/ink-file";
+import { InkStorage } from "../utils/ink-storage";
+import { IInkAnchor } from "./useInkAnchors";
+import { IInkCallout } from "./useInkCallouts";
+
+/**
+ * Hook for saving ink to storage and replaying it in a later meeting
+ *
+ * @remarks
+ * Only strokes anchored to a media item are saved, with their media time, so they come back
+ * on the same frames. Loaded strokes are added for everyone in the order they were drawn,
+ * with the original pauses between them taken from their timestamps. Text callouts are saved
+ * too, and are added all at once when loading.
+ */
+export const useInkPersistence = (
+    storage: InkStorage,
+    localUserCanInk: boolean,
+    getAnchoredStrokes: () => { stroke: IStroke; anchor: IInkAnchor }[],
+    addAnchoredStroke: (stroke: IStroke, anchor: IInkAnchor) => void,
+    inkCallouts: IInkCallout[],
+    restoreInkCallout: (callout: IInkCallout) => void,
+    sendNotification: (text: string) => void
+) => {
+    const [inkReplaying, setInkReplaying] = useState(false);
+    const replayTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+    const stopInkReplay = useCallback(() => {
+        clearTimeout(replayTimeoutRef.current);
+        replayTimeoutRef.current = undefined;
+        setInkReplaying(false);
+    }, []);
+
+    const saveInk = useCallback(async () => {
+        const strokes = getAnchoredStrokes().map(
+            ({ stroke, anchor }): IInkFileStroke => ({
+                id: stroke.id,
+                mediaId: anchor.mediaId,
+                mediaTime: anchor.mediaTime,
+                timeStamp: stroke.timeStamp,
+                brush: stroke.brush,
+                points: stroke.getAllPoints(),
+            })
+        );
+        const callouts = inkCallouts.map(
+            (callout): IInkFileCallout => ({
+                id: callout.id,
+                mediaId: callout.mediaId,
+                mediaTime: callout.mediaTime,
+                text: callout.text,
+                x: callout.x,
+                y: callout.y,
+                color: callout.color,
+            })
+        );
+        try {
+            await storage.save(createInkFile(strokes, callouts));
+        } catch (error) {
+            console.error(error);
+        }
+    }, [storage, getAnchoredStrokes, inkCallouts]);
+
+    const loadInk = useCallback(async () => {
+        if (!localUserCanInk) return;
+        let strokes: IInkFileStroke[];
+        let callouts: IInkFileCallout[];
+        try {
+            const file = await storage.load();
+            if (!file) return;
+            strokes = file.strokes;
+            callouts = file.callouts ?? [];
+        } catch (error) {
+            console.error(error);
+            return;
+        }
+        if (strokes.length === 0 && callouts.length === 0) return;
+        stopInkReplay();
+        callouts.forEach(restoreInkCallout);
+        sendNotification(
+            callouts.length > 0
+                ? `loaded ${strokes.length} ink strokes and ${callouts.length} text callouts`
+                : `loaded ${strokes.length} ink strokes`
+        );
+        if (strokes.length === 0) return;
+        setInkReplaying(true);
+        const replayStroke = (index: number) => {
+            const fileStroke = strokes[index];
+            addAnchoredStroke(
+                new Stroke({
+                    id: fileStroke.id,
+                    timeStamp: fileStroke.timeStamp,
+                    brush: fileStroke.brush,
+                    points: fileStroke.points,
+                }),
+                {
+                    mediaId: fileStroke.mediaId,
+                    mediaTime: fileStroke.mediaTime,
+                }
+            );
+            const next = strokes[index + 1];
+            if (!next) {
+                replayTimeoutRef.current = undefined;
+                setInkReplaying(false);
+                return;
+            }
+            const delay = Math.max(0, next.timeStamp - fileStroke.timeStamp);
+            replayTimeoutRef.current = setTimeout(
+                () => replayStroke(index + 1),
+                delay
+            );
+        };
+        replayStroke(0);
+    }, [
+        storage,
+        localUserCanInk,
+        addAnchoredStroke,
+        restoreInkCallout,
+        stopInkReplay,
+        sendNotification,
+    ]);
+
+    // Stop replaying if the user can no longer ink
+    useEffect(() => {
+        if (!localUserCanInk) {
+            stopInkReplay();
+        }
+    }, [localUserCanInk, stopInkReplay]);
+
+    // Stop replaying when unmounted
+    useEffect(() => {
+        return () => {
+            clearTimeout(replayTimeoutRef.current);
+        };
+    }, []);
+
+    return {
+        saveInk,
+        loadInk,
+        inkReplaying,
+        stopInkReplay,
+    };
+};
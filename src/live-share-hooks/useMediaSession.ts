@@ -5,15 +5,16 @@
 
 import { ExtendedMediaMetadata } from "@microsoft/live-share-media";
 import { useEffect, useCallback } from "react";
-import { AzureMediaPlayer } from "../utils/AzureMediaPlayer";
+import { MediaPlayerAdapter, PlayerEvent } from "../utils/MediaPlayerAdapter";
 import { MediaItem } from "../utils/media-list";
-import { useMediaSynchronizer } from "@microsoft/live-share-react";
 import {
-    ACCEPT_PLAYBACK_CHANGES_FROM,
-    IN_TEAMS,
-    UNIQUE_KEYS,
-} from "../constants";
-import { meeting } from "@microsoft/teams-js";
+    useMediaSynchronizer,
+    useSharedState,
+} from "@microsoft/live-share-react";
+import { ACCEPT_PLAYBACK_CHANGES_FROM, UNIQUE_KEYS } from "../constants";
+
+// Playback rates the presenter can pick from
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
 
 /**
  * Hook that synchronizes a media element using MediaSynchronizer and LiveMediaSession
@@ -23,10 +24,16 @@ import { meeting } from "@microsoft/teams-js";
  * Must use custom media controls to intercept play, pause, and seek events.
  * Any pause/play/seek events not sent through the MediaSynchronizer will be blocked
  * while MediaSynchronizer is synchronizing.
+ * The playback rate is also kept in a shared state, so that it can be re-applied after
+ * seeks and track changes, which reset the rate in some players.
+ * Playback changes by a presenter without the `playback` permission are ignored.
+ * The local volume should be set through the returned `volumeManager`, which
+ * `useAudioDucking` uses to lower the volume relative to the user's chosen volume.
  */
 export const useMediaSession = (
     localUserIsPresenting: boolean,
-    player: AzureMediaPlayer | null,
+    localUserCanControlPlayback: boolean,
+    player: MediaPlayerAdapter | null,
     selectedMediaItem: MediaItem | undefined,
     sendNotification: (text: string) => void
 ) => {
@@ -38,6 +45,10 @@ export const useMediaSession = (
             ACCEPT_PLAYBACK_CHANGES_FROM,
             !localUserIsPresenting
         );
+    const [playbackRate, setPlaybackRateState] = useSharedState<number>(
+        UNIQUE_KEYS.playbackRate,
+        1
+    );
 
     // callback method to change the selected track src
     const setTrack = useCallback(
@@ -46,9 +57,11 @@ export const useMediaSession = (
             const metadata: ExtendedMediaMetadata = {
                 trackIdentifier: trackId,
                 liveStream: false,
-                album: "",
-                artist: "",
-                artwork: [],
+                album: selectedMediaItem?.album ?? "",
+                artist: selectedMediaItem?.artist ?? "",
+                artwork: selectedMediaItem?.thumbnailImage
+                    ? [{ src: selectedMediaItem.thumbnailImage }]
+                    : [],
                 title: selectedMediaItem ? selectedMediaItem?.title : "",
             };
             mediaSynchronizer?.setTrack(metadata);
@@ -65,6 +78,7 @@ export const useMediaSession = (
     // callback method to play through the synchronizer
     const play = useCallback(async () => {
         if (localUserIsPresenting) {
+            if (!localUserCanControlPlayback) return;
             // Synchronize the play action
             mediaSynchronizer?.play();
             sendNotification(`played the ${selectedMediaItem?.type}`);
@@ -80,6 +94,7 @@ export const useMediaSession = (
         mediaSynchronizer,
         selectedMediaItem,
         localUserIsPresenting,
+        localUserCanControlPlayback,
         player,
         suspended,
         beginSuspension,
@@ -90,6 +105,7 @@ export const useMediaSession = (
     // callback method to play through the synchronizer
     const pause = useCallback(async () => {
         if (localUserIsPresenting) {
+            if (!localUserCanControlPlayback) return;
             // Synchronize the pause action
             mediaSynchronizer?.pause();
             sendNotification(`paused the ${selectedMediaItem?.type}`);
@@ -105,6 +121,7 @@ export const useMediaSession = (
         mediaSynchronizer,
         selectedMediaItem,
         localUserIsPresenting,
+        localUserCanControlPlayback,
         player,
         suspended,
         beginSuspension,
@@ -116,6 +133,7 @@ export const useMediaSession = (
     const seekTo = useCallback(
         async (timestamp: number) => {
             if (localUserIsPresenting) {
+                if (!localUserCanControlPlayback) return;
                 // Synchronize the seek action
                 mediaSynchronizer?.seekTo(timestamp);
                 sendNotification(`seeked the ${selectedMediaItem?.type}`);
@@ -134,6 +152,7 @@ export const useMediaSession = (
             mediaSynchronizer,
             selectedMediaItem,
             localUserIsPresenting,
+            localUserCanControlPlayback,
             player,
             suspended,
             beginSuspension,
@@ -142,6 +161,58 @@ export const useMediaSession = (
         ]
     );
 
+    // callback method to change the playback rate for everyone
+    const setPlaybackRate = useCallback(
+        async (rate: number) => {
+            if (!localUserIsPresenting || !localUserCanControlPlayback) return;
+            setPlaybackRateState(rate);
+            mediaSynchronizer?.setPlaybackRate(rate);
+            sendNotification(`changed the playback speed to ${rate}x`);
+        },
+        [
+            mediaSynchronizer,
+            localUserIsPresenting,
+            localUserCanControlPlayback,
+            setPlaybackRateState,
+            sendNotification,
+        ]
+    );
+
+    // Re-apply the shared playback rate whenever the player loads, seeks or resumes
+    useEffect(() => {
+        if (!player) return;
+        const applyPlaybackRate = () => {
+            if (player.playbackRate === playbackRate) return;
+            if (localUserIsPresenting) {
+                // Also resets the rate the synchronizer expects on other clients
+                mediaSynchronizer?.setPlaybackRate(playbackRate);
+            } else if (!suspended) {
+                player.playbackRate = playbackRate;
+            }
+        };
+        const events = [
+            PlayerEvent.loadedMetadata,
+            PlayerEvent.seeked,
+            PlayerEvent.play,
+        ];
+        events.forEach((event) => {
+            player.addEventListener(event, applyPlaybackRate);
+        });
+        applyPlaybackRate();
+        return () => {
+            events.forEach((event) => {
+                player.removeEventListener(event, applyPlaybackRate);
+            });
+        };
+    }, [
+        player,
+        mediaSynchronizer,
+        playbackRate,
+        localUserIsPresenting,
+        suspended,
+        selectedMediaItem?.src,
+    ]);
+
     // Hook to set player to view only mode when user is not the presenter and set track if needed
     useEffect(() => {
         if (!mediaSynchronizer) return;
@@ -157,19 +228,6 @@ export const useMediaSession = (
         setTrack,
     ]);
 
-    // Register audio ducking
-    useEffect(() => {
-        if (!mediaSynchronizer || !IN_TEAMS) return;
-        // Will replace existing handler
-        meeting.registerSpeakingStateChangeHandler((speakingState) => {
-            if (speakingState.isSpeakingDetected) {
-                mediaSynchronizer?.volumeManager?.startLimiting();
-            } else {
-                mediaSynchronizer?.volumeManager?.stopLimiting();
-            }
-        });
-    }, [mediaSynchronizer]);
-
     // Return relevant objects and callbacks UI layer
     return {
         mediaSessionStarted: !!mediaSynchronizer,
@@ -179,5 +237,8 @@ export const useMediaSession = (
         seekTo,
         setTrack,
         endSuspension,
+        playbackRate,
+        setPlaybackRate,
+        volumeManager: mediaSynchronizer?.volumeManager,
     };
 };
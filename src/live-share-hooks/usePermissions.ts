@@ -0,0 +1,118 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useMemo } from "react";
+import { LivePresenceUser, UserMeetingRole } from "@microsoft/live-share";
+import { useLiveState } from "@microsoft/live-share-react";
+import {
+    DEFAULT_PERMISSIONS,
+    getAssignableRoles,
+    MEETING_ROLES,
+    Permission,
+    PermissionMatrix,
+    UNIQUE_KEYS,
+} from "../constants";
+import { IUserData } from "./usePresence";
+
+// Whether the local user can perform each action
+export type LocalPermissions = Record<Permission, boolean>;
+
+// Used in notifications, e.g. "changed who can edit the playlist"
+const PERMISSION_ACTIONS: Record<Permission, string> = {
+    playback: "play, pause and seek",
+    changeTrack: "change the track",
+    editPlaylist: "edit the playlist",
+    ink: "draw on the video",
+    takeControl: "take control",
+};
+
+/**
+ * Check whether a user with the given roles can perform an action.
+ */
+export function hasPermission(
+    permissions: PermissionMatrix,
+    permission: Permission,
+    roles: UserMeetingRole[]
+): boolean {
+    const assignableRoles = getAssignableRoles(permission);
+    const allowedRoles = permissions[permission];
+    if (!allowedRoles || allowedRoles.length === 0) {
+        // Everyone, within the roles the permission can be given to
+        return (
+            assignableRoles.length === MEETING_ROLES.length ||
+            roles.some((role) => assignableRoles.includes(role))
+        );
+    }
+    return roles.some(
+        (role) => allowedRoles.includes(role) && assignableRoles.includes(role)
+    );
+}
+
+/**
+ * Hook for the meeting's role permission matrix
+ *
+ * @remarks
+ * The matrix is a `LiveState` that only the organizer can change, so it starts from
+ * `DEFAULT_PERMISSIONS` in each new session. Permissions are checked by each client
+ * before it performs an action. Playback and take control can only be given to roles the
+ * media session accepts playback changes from.
+ */
+export const usePermissions = (
+    localUser: LivePresenceUser<IUserData> | undefined,
+    sendNotification: (text: string) => void
+) => {
+    const [permissions, setPermissions, livePermissions] =
+        useLiveState<PermissionMatrix>(
+            UNIQUE_KEYS.permissions,
+            DEFAULT_PERMISSIONS,
+            [UserMeetingRole.organizer]
+        );
+
+    const localUserIsOrganizer = !!localUser?.roles.includes(
+        UserMeetingRole.organizer
+    );
+
+    const localPermissions: LocalPermissions = useMemo(() => {
+        const roles = localUser?.roles ?? [];
+        return {
+            playback: hasPermission(permissions, "playback", roles),
+            changeTrack: hasPermission(permissions, "changeTrack", roles),
+            editPlaylist: hasPermission(permissions, "editPlaylist", roles),
+            ink: hasPermission(permissions, "ink", roles),
+            takeControl: hasPermission(permissions, "takeControl", roles),
+        };
+    }, [permissions, localUser]);
+
+    // Organizer only: change the roles allowed to perform an action
+    const setPermissionRoles = useCallback(
+        (permission: Permission, roles: UserMeetingRole[]) => {
+            if (!localUserIsOrganizer) return;
+            const assignableRoles = getAssignableRoles(permission);
+            const allowedRoles = roles.filter((role) =>
+                assignableRoles.includes(role)
+            );
+            // An empty list means everyone, which isn't the same as no assignable role
+            if (roles.length > 0 && allowedRoles.length === 0) return;
+            setPermissions({ ...permissions, [permission]: allowedRoles })
+                .then(() => {
+                    sendNotification(
+                        `changed who can ${PERMISSION_ACTIONS[permission]}`
+                    );
+                })
+                .catch((error: Error) => {
+                    console.error(error);
+                });
+        },
+        [localUserIsOrganizer, permissions, setPermissions, sendNotification]
+    );
+
+    return {
+        permissionsStarted: !!livePermissions,
+        permissions,
+        localPermissions,
+        localUserIsOrganizer,
+        setPermissionRoles,
+    };
+};
@@ -0,0 +1,67 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect } from "react";
+import { useLiveShareContext } from "@microsoft/live-share-react";
+import { MediaItem } from "../utils/media-list";
+import { MediaPlayerAdapter, PlayerEvent } from "../utils/MediaPlayerAdapter";
+import { IUserData } from "./usePresence";
+
+// How often the position is republished while playing, to correct extrapolation drift
+const PUBLISH_INTERVAL_MS = 10000;
+
+/**
+ * Hook that publishes the local player's position through presence
+ *
+ * @remarks
+ * The position is published on every transport change and occasionally while playing.
+ * Other clients extrapolate from the timestamp in between, see `useRoster`. The presenter's
+ * status is also what followers measure their drift against, see `useSyncHealth`.
+ */
+export const usePlaybackStatus = (
+    player: MediaPlayerAdapter | null,
+    selectedMediaItem: MediaItem | undefined,
+    updateUserData: (data: Partial<IUserData>) => boolean
+) => {
+    const { timestampProvider } = useLiveShareContext();
+
+    const publishPlaybackStatus = useCallback(() => {
+        if (!player || !timestampProvider) return;
+        updateUserData({
+            playbackStatus: {
+                mediaId: selectedMediaItem?.id,
+                position: player.currentTime || 0,
+                playing: !player.paused,
+                playbackRate: player.playbackRate,
+                timestamp: timestampProvider.getTimestamp(),
+            },
+        });
+    }, [player, selectedMediaItem?.id, timestampProvider, updateUserData]);
+
+    useEffect(() => {
+        if (!player) return;
+        const events = [
+            PlayerEvent.play,
+            PlayerEvent.pause,
+            PlayerEvent.seeked,
+            PlayerEvent.rateChange,
+            PlayerEvent.loadedMetadata,
+        ];
+        events.forEach((event) => {
+            player.addEventListener(event, publishPlaybackStatus);
+        });
+        const interval = setInterval(() => {
+            if (!player.paused) {
+                publishPlaybackStatus();
+            }
+        }, PUBLISH_INTERVAL_MS);
+        return () => {
+            events.forEach((event) => {
+                player.removeEventListener(event, publishPlaybackStatus);
+            });
+            clearInterval(interval);
+        };
+    }, [player, publishPlaybackStatus]);
+};
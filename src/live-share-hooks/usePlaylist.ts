@@ -1,48 +1,332 @@
-import { useCallback } from "react";
-import { MediaItem, searchList } from "../utils/media-list";
+import { useCallback, useMemo } from "react";
+import { MediaItem } from "../utils/media-list";
 import { useSharedMap, useSharedState } from "@microsoft/live-share-react";
 import { UNIQUE_KEYS } from "../constants";
+import { LocalPermissions } from "./usePermissions";
 import { mediaList } from "../utils/media-list";
+import { createShuffleSeed, shuffleWithSeed } from "../utils/shuffle";
+
+export type RepeatMode = "off" | "one" | "all";
+
+// Repeat mode selected by each press of a repeat button
+export const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = {
+    off: "all",
+    all: "one",
+    one: "off",
+};
+
+export type PlaylistImportMode = "merge" | "replace";
+
+export interface IPlaylistModes {
+    repeat: RepeatMode;
+    shuffle: boolean;
+    // Seed shared by all clients so they compute the same shuffled order
+    shuffleSeed: number;
+}
+
+// Smallest gap between two order values before the playlist order is renumbered
+const MIN_ORDER_GAP = 1e-9;
 
 /**
  * Hook for tracking video playlist
+ *
+ * @remarks
+ * Items are stored in one `SharedMap` and their position in a second `SharedMap` of fractional
+ * order values, so that moving an item only rewrites that item's order. Items are sorted by
+ * order and then by ID, so concurrent moves resolve to the same order on every client.
+ * When shuffle is on, tracks play in an order derived from a shared seed instead.
+ * Changes are ignored unless the local user has the `editPlaylist` permission, or
+ * `changeTrack` for selecting tracks and changing the repeat and shuffle modes.
  */
-export const usePlaylist = (sendNotification: (text: string) => void) => {
+export const usePlaylist = (
+    localPermissions: LocalPermissions,
+    sendNotification: (text: string) => void
+) => {
+    const { changeTrack: canChangeTrack, editPlaylist: canEditPlaylist } =
+        localPermissions;
     const {
         map: playlistMap,
         setEntry,
-        deleteEntry: removeMediaItem,
+        deleteEntry,
         sharedMap,
     } = useSharedMap<MediaItem>(UNIQUE_KEYS.playlist, getInitialData());
-    const [selectedId, selectMediaId] = useSharedState<string | undefined>(
+    const {
+        map: orderMap,
+        setEntry: setOrder,
+        deleteEntry: deleteOrder,
+    } = useSharedMap<number>(UNIQUE_KEYS.playlistOrder, getInitialOrderData());
+    const [selectedId, setSelectedId] = useSharedState<string | undefined>(
         UNIQUE_KEYS.selectedVideoId,
         mediaList[0].id
     );
-    const mediaItems: MediaItem[] = [...playlistMap.values()];
+    const [playlistModes, setPlaylistModes] = useSharedState<IPlaylistModes>(
+        UNIQUE_KEYS.playlistModes,
+        {
+            repeat: "off",
+            shuffle: false,
+            shuffleSeed: 0,
+        }
+    );
+    const mediaItems: MediaItem[] = useMemo(
+        () => sortMediaItems([...playlistMap.values()], orderMap),
+        [playlistMap, orderMap]
+    );
+    // Order that tracks are played in, which differs from mediaItems when shuffled
+    const playOrder: MediaItem[] = useMemo(
+        () =>
+            playlistModes.shuffle
+                ? shuffleWithSeed(mediaItems, playlistModes.shuffleSeed)
+                : mediaItems,
+        [mediaItems, playlistModes.shuffle, playlistModes.shuffleSeed]
+    );
 
     const selectedMediaIndex = mediaItems.findIndex(
         (item) => item.id === selectedId
     );
+    const selectedPlayIndex = playOrder.findIndex(
+        (item) => item.id === selectedId
+    );
 
+    const selectMediaId = useCallback(
+        (mediaId: string) => {
+            if (!canChangeTrack) return;
+            setSelectedId(mediaId);
+        },
+        [canChangeTrack, setSelectedId]
+    );
+
+    // Adds a media item listed by the media catalog
     const addMediaItem = useCallback(
-        (id: string) => {
-            if (playlistMap.has(id)) return;
-            const itemToAdd = searchList.find((item) => item.id === id);
-            if (!itemToAdd) return;
-            setEntry(id, itemToAdd);
+        (mediaItem: MediaItem) => {
+            if (!canEditPlaylist || playlistMap.has(mediaItem.id)) return;
+            setOrder(mediaItem.id, getOrderAfter(mediaItems, orderMap));
+            setEntry(mediaItem.id, mediaItem);
             sendNotification?.("added a video to the playlist");
         },
-        [playlistMap, setEntry, sendNotification]
+        [
+            canEditPlaylist,
+            playlistMap,
+            mediaItems,
+            orderMap,
+            setEntry,
+            setOrder,
+            sendNotification,
+        ]
     );
 
-    const nextTrack = useCallback(() => {
-        if (mediaItems.length <= 1) return;
-        let incrementIndex = selectedMediaIndex + 1;
-        if (incrementIndex >= mediaItems.length) {
+    // Adds a media item that isn't in the media catalog, such as one added by URL
+    const addCustomMediaItem = useCallback(
+        (mediaItem: MediaItem) => {
+            if (!canEditPlaylist || playlistMap.has(mediaItem.id)) return;
+            if (mediaItems.some((item) => item.src === mediaItem.src)) return;
+            setOrder(mediaItem.id, getOrderAfter(mediaItems, orderMap));
+            setEntry(mediaItem.id, mediaItem);
+            sendNotification?.(
+                `added ${
+                    mediaItem.type === "audio" ? "a track" : "a video"
+                } to the playlist`
+            );
+        },
+        [
+            canEditPlaylist,
+            playlistMap,
+            mediaItems,
+            orderMap,
+            setEntry,
+            setOrder,
+            sendNotification,
+        ]
+    );
+
+    const removeMediaItem = useCallback(
+        (id: string) => {
+            if (!canEditPlaylist) return;
+            deleteEntry(id);
+            deleteOrder(id);
+        },
+        [canEditPlaylist, deleteEntry, deleteOrder]
+    );
+
+    /**
+     * Add items read from a playlist file. "merge" appends items that aren't already in the
+     * playlist, while "replace" removes every current item first and selects the file's
+     * selected item, so it also needs the `changeTrack` permission. Returns the number of
+     * items added.
+     */
+    const importPlaylist = useCallback(
+        (
+            items: MediaItem[],
+            selectedIdToImport: string | undefined,
+            mode: PlaylistImportMode
+        ): number => {
+            if (!canEditPlaylist) return 0;
+            if (mode === "replace" && !canChangeTrack) return 0;
+            const existingItems = mode === "merge" ? mediaItems : [];
+            const seenIds = new Set(existingItems.map((item) => item.id));
+            const seenSrcs = new Set(existingItems.map((item) => item.src));
+            const itemsToAdd = items.filter((item) => {
+                if (seenIds.has(item.id) || seenSrcs.has(item.src)) {
+                    return false;
+                }
+                seenIds.add(item.id);
+                seenSrcs.add(item.src);
+                return true;
+            });
+            if (mode === "replace") {
+                if (itemsToAdd.length === 0) return 0;
+                const idsToAdd = new Set(itemsToAdd.map((item) => item.id));
+                mediaItems.forEach((item) => {
+                    if (idsToAdd.has(item.id)) return;
+                    deleteEntry(item.id);
+                    deleteOrder(item.id);
+                });
+            }
+            const firstOrder =
+                mode === "merge" ? getOrderAfter(mediaItems, orderMap) : 0;
+            itemsToAdd.forEach((item, index) => {
+                setOrder(item.id, firstOrder + index);
+                setEntry(item.id, item);
+            });
+            if (mode === "replace") {
+                selectMediaId(
+                    selectedIdToImport &&
+                        itemsToAdd.some(
+                            (item) => item.id === selectedIdToImport
+                        )
+                        ? selectedIdToImport
+                        : itemsToAdd[0].id
+                );
+            }
+            sendNotification?.(
+                mode === "replace"
+                    ? "replaced the playlist"
+                    : `imported ${itemsToAdd.length} item${
+                          itemsToAdd.length === 1 ? "" : "s"
+                      } to the playlist`
+            );
+            return itemsToAdd.length;
+        },
+        [
+            canEditPlaylist,
+            canChangeTrack,
+            mediaItems,
+            orderMap,
+            setEntry,
+            deleteEntry,
+            setOrder,
+            deleteOrder,
+            selectMediaId,
+            sendNotification,
+        ]
+    );
+
+    const moveMediaItem = useCallback(
+        (id: string, toIndex: number) => {
+            if (!canEditPlaylist) return;
+            const fromIndex = mediaItems.findIndex((item) => item.id === id);
+            if (fromIndex < 0) return;
+            const otherItems = mediaItems.filter((item) => item.id !== id);
+            const index = Math.max(0, Math.min(toIndex, otherItems.length));
+            if (index === fromIndex) return;
+            const orders = otherItems.map((item, i) =>
+                getOrder(item, i, orderMap)
+            );
+            let order: number;
+            if (orders.length === 0) {
+                order = 0;
+            } else if (index === 0) {
+                order = orders[0] - 1;
+            } else if (index >= orders.length) {
+                order = orders[orders.length - 1] + 1;
+            } else {
+                const before = orders[index - 1];
+                const after = orders[index];
+                if (after - before < MIN_ORDER_GAP) {
+                    // Ran out of precision between neighbors, so renumber the whole playlist
+                    const reordered = [...otherItems];
+                    reordered.splice(index, 0, mediaItems[fromIndex]);
+                    reordered.forEach((item, i) => setOrder(item.id, i));
+                    sendNotification?.("reordered the playlist");
+                    return;
+                }
+                order = (before + after) / 2;
+            }
+            setOrder(id, order);
+            sendNotification?.("reordered the playlist");
+        },
+        [canEditPlaylist, mediaItems, orderMap, setOrder, sendNotification]
+    );
+
+    // Item that nextTrack will select, or undefined if there is nothing to skip to
+    const nextMediaItem = useMemo(() => {
+        if (playOrder.length <= 1) return undefined;
+        let incrementIndex = selectedPlayIndex + 1;
+        if (incrementIndex >= playOrder.length) {
             incrementIndex = 0;
         }
-        selectMediaId(mediaItems[incrementIndex].id);
-    }, [selectedMediaIndex, mediaItems, selectMediaId]);
+        return playOrder[incrementIndex];
+    }, [selectedPlayIndex, playOrder]);
+
+    // Item that previousTrack will select, or undefined if there is nothing to go back to
+    const previousMediaItem = useMemo(() => {
+        if (playOrder.length <= 1) return undefined;
+        let decrementIndex = selectedPlayIndex - 1;
+        if (decrementIndex < 0) {
+            decrementIndex = playOrder.length - 1;
+        }
+        return playOrder[decrementIndex];
+    }, [selectedPlayIndex, playOrder]);
+
+    // Item to play when the selected track ends, following the repeat mode
+    const upcomingMediaItem = useMemo(() => {
+        if (selectedPlayIndex < 0) return undefined;
+        if (playlistModes.repeat === "one") {
+            return playOrder[selectedPlayIndex];
+        }
+        if (selectedPlayIndex + 1 < playOrder.length) {
+            return playOrder[selectedPlayIndex + 1];
+        }
+        return playlistModes.repeat === "all" ? playOrder[0] : undefined;
+    }, [selectedPlayIndex, playOrder, playlistModes.repeat]);
+
+    const nextTrack = useCallback(() => {
+        if (!nextMediaItem) return;
+        selectMediaId(nextMediaItem.id);
+    }, [nextMediaItem, selectMediaId]);
+
+    const previousTrack = useCallback(() => {
+        if (!previousMediaItem) return;
+        selectMediaId(previousMediaItem.id);
+    }, [previousMediaItem, selectMediaId]);
+
+    const setRepeat = useCallback(
+        (repeat: RepeatMode) => {
+            if (!canChangeTrack) return;
+            setPlaylistModes((prevModes) => ({ ...prevModes, repeat }));
+            sendNotification?.(
+                repeat === "off"
+                    ? "turned off repeat"
+                    : `set repeat to ${repeat === "one" ? "one track" : "all"}`
+            );
+        },
+        [canChangeTrack, setPlaylistModes, sendNotification]
+    );
+
+    const setShuffle = useCallback(
+        (shuffle: boolean) => {
+            if (!canChangeTrack) return;
+            setPlaylistModes((prevModes) => ({
+                ...prevModes,
+                shuffle,
+                // Reshuffle each time shuffle is turned on
+                shuffleSeed: shuffle
+                    ? createShuffleSeed()
+                    : prevModes.shuffleSeed,
+            }));
+            sendNotification?.(`turned ${shuffle ? "on" : "off"} shuffle`);
+        },
+        [canChangeTrack, setPlaylistModes, sendNotification]
+    );
 
     const selectedMediaItem =
         selectedMediaIndex >= 0 && mediaItems.length > selectedMediaIndex
@@ -53,10 +337,21 @@ export const usePlaylist = (sendNotification: (text: string) => void) => {
         playlistStarted: !!sharedMap,
         mediaItems,
         selectedMediaItem,
+        nextMediaItem,
+        previousMediaItem,
+        upcomingMediaItem,
+        repeat: playlistModes.repeat,
+        shuffle: playlistModes.shuffle,
         addMediaItem,
+        addCustomMediaItem,
         removeMediaItem,
+        moveMediaItem,
+        importPlaylist,
         selectMediaId,
         nextTrack,
+        previousTrack,
+        setRepeat,
+        setShuffle,
     };
 };
 
@@ -66,3 +361,59 @@ function getInitialData(): Map<string, MediaItem> {
     map.set(initialItem.id, initialItem);
     return map;
 }
+
+function getInitialOrderData(): Map<string, number> {
+    const map = new Map<string, number>();
+    map.set(mediaList[0].id, 0);
+    return map;
+}
+
+/**
+ * Get the order value of an item, falling back to its index for items that were added without one.
+ */
+function getOrder(
+    item: MediaItem,
+    index: number,
+    orderMap: ReadonlyMap<string, number>
+): number {
+    return orderMap.get(item.id) ?? index;
+}
+
+/**
+ * Get an order value that places a new item after every existing item.
+ */
+function getOrderAfter(
+    mediaItems: MediaItem[],
+    orderMap: ReadonlyMap<string, number>
+): number {
+    return mediaItems.reduce(
+        (max, item, index) =>
+            Math.max(max, getOrder(item, index, orderMap) + 1),
+        0
+    );
+}
+
+/**
+ * Sort items by order value, breaking ties by ID so every client ends up with the same order.
+ */
+function sortMediaItems(
+    mediaItems: MediaItem[],
+    orderMap: ReadonlyMap<string, number>
+): MediaItem[] {
+    return mediaItems
+        .map((item, index) => ({
+            item,
+            order: getOrder(item, index, orderMap),
+        }))
+        .sort((a, b) => {
+            if (a.order === b.order) {
+                return a.item.id < b.item.id
+                    ? -1
+                    : a.item.id > b.item.id
+                    ? 1
+                    : 0;
+            }
+            return a.order - b.order;
+        })
+        .map(({ item }) => item);
+}
@@ -3,15 +3,37 @@
  * Licensed under the MIT License.
  */
 
-import { useMemo } from "react";
+import { useCallback, useRef } from "react";
 import {
     useLivePresence,
     useLiveShareContext,
 } from "@microsoft/live-share-react";
-import { ACCEPT_PLAYBACK_CHANGES_FROM, UNIQUE_KEYS } from "../constants";
+import { UNIQUE_KEYS } from "../constants";
+
+export interface ISyncHealth {
+    // Seconds the local position is ahead (positive) or behind (negative) of the presenter,
+    // or null if it can't be measured (e.g., the user is presenting)
+    offset: number | null;
+    buffering: boolean;
+    suspended: boolean;
+}
+
+export interface IPlaybackStatus {
+    // ID of the media item loaded in the user's player
+    mediaId?: string;
+    // Playback position in seconds at `timestamp`
+    position: number;
+    playing: boolean;
+    playbackRate: number;
+    // Global timestamp (from timestampProvider) the position was read at
+    timestamp: number;
+}
 
 export interface IUserData {
     joinedTimestamp: number;
+    syncHealth?: ISyncHealth;
+    // Only published by clients with a player, i.e. on the meeting stage
+    playbackStatus?: IPlaybackStatus;
 }
 
 /**
@@ -19,33 +41,42 @@ export interface IUserData {
  */
 export const usePresence = () => {
     const { timestampProvider } = useLiveShareContext();
-    const { allUsers, localUser, livePresence } = useLivePresence<IUserData>(
-        UNIQUE_KEYS.presence,
-        // Get initial value callback
-        () => ({
-            joinedTimestamp: timestampProvider?.getTimestamp() ?? 0,
-        })
-    );
+    const { allUsers, localUser, livePresence, updatePresence } =
+        useLivePresence<IUserData>(
+            UNIQUE_KEYS.presence,
+            // Get initial value callback
+            () => ({
+                joinedTimestamp: timestampProvider?.getTimestamp() ?? 0,
+            })
+        );
+
+    // Last data sent, which is newer than localUser.data until the update comes back
+    const sentDataRef = useRef<IUserData>();
 
-    // Local user is an eligible presenter
-    const localUserIsEligiblePresenter = useMemo(() => {
-        if (ACCEPT_PLAYBACK_CHANGES_FROM.length === 0) {
+    // Update fields of the local user's presence data, keeping the rest.
+    // Returns false if presence hasn't started yet.
+    const updateUserData = useCallback(
+        (data: Partial<IUserData>): boolean => {
+            if (!livePresence || !localUser) return false;
+            const nextData: IUserData = {
+                joinedTimestamp: localUser.data?.joinedTimestamp ?? 0,
+                ...localUser.data,
+                ...sentDataRef.current,
+                ...data,
+            };
+            sentDataRef.current = nextData;
+            updatePresence(nextData).catch((error: Error) => {
+                console.error(error);
+            });
             return true;
-        }
-        if (!livePresence || !localUser) {
-            return false;
-        }
-        return (
-            localUser.roles.filter((role) =>
-                ACCEPT_PLAYBACK_CHANGES_FROM.includes(role)
-            ).length > 0
-        );
-    }, [livePresence, localUser]);
+        },
+        [livePresence, localUser, updatePresence]
+    );
 
     return {
         presenceStarted: !!livePresence,
         localUser,
         allUsers,
-        localUserIsEligiblePresenter,
+        updateUserData,
     };
 };
@@ -0,0 +1,94 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import {
+    LivePresenceUser,
+    PresenceState,
+    UserMeetingRole,
+} from "@microsoft/live-share";
+import { useLiveShareContext } from "@microsoft/live-share-react";
+import { IUserData } from "./usePresence";
+
+// How often extrapolated positions are refreshed
+const REFRESH_INTERVAL_MS = 1000;
+
+export interface IRosterEntry {
+    userId: string;
+    displayName: string;
+    roles: UserMeetingRole[];
+    state: PresenceState;
+    isLocalUser: boolean;
+    isPresenting: boolean;
+    // Watching independently rather than following the presenter
+    suspended: boolean;
+    mediaId?: string;
+    // Current playback position in seconds, if the user has a player
+    position?: number;
+    playing: boolean;
+}
+
+/**
+ * Hook that lists users for the roster, presenter first, then online users by name
+ *
+ * @remarks
+ * Positions are extrapolated from each user's last published playback status, so they keep
+ * moving between updates.
+ */
+export const useRoster = (
+    users: LivePresenceUser<IUserData>[],
+    localUserId: string | undefined,
+    presentingUserId: string | undefined
+): IRosterEntry[] => {
+    const { timestampProvider } = useLiveShareContext();
+    const [now, setNow] = useState(() => timestampProvider?.getTimestamp());
+
+    useEffect(() => {
+        if (!timestampProvider) return;
+        setNow(timestampProvider.getTimestamp());
+        const interval = setInterval(() => {
+            setNow(timestampProvider.getTimestamp());
+        }, REFRESH_INTERVAL_MS);
+        return () => {
+            clearInterval(interval);
+        };
+    }, [timestampProvider]);
+
+    return useMemo(() => {
+        const entries = users.map((user): IRosterEntry => {
+            const status = user.data?.playbackStatus;
+            let position = status?.position;
+            if (status?.playing && position !== undefined && now) {
+                position +=
+                    (Math.max(0, now - status.timestamp) / 1000) *
+                    status.playbackRate;
+            }
+            return {
+                userId: user.userId,
+                displayName: user.displayName ?? "Unknown user",
+                roles: user.roles,
+                state: user.state,
+                isLocalUser: user.userId === localUserId,
+                isPresenting: user.userId === presentingUserId,
+                suspended: !!user.data?.syncHealth?.suspended,
+                mediaId: status?.mediaId,
+                position,
+                playing: !!status?.playing,
+            };
+        });
+        entries.sort((a, b) => {
+            if (a.isPresenting !== b.isPresenting) {
+                return a.isPresenting ? -1 : 1;
+            }
+            const aOnline = a.state !== PresenceState.offline;
+            const bOnline = b.state !== PresenceState.offline;
+            if (aOnline !== bOnline) {
+                return aOnline ? -1 : 1;
+            }
+            return a.displayName.localeCompare(b.displayName);
+        });
+        return entries;
+    }, [users, localUserId, presentingUserId, now]);
+};
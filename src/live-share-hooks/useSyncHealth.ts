@@ -0,0 +1,126 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useLiveShareContext } from "@microsoft/live-share-react";
+import { MediaItem } from "../utils/media-list";
+import { MediaPlayerAdapter, PlayerEvent } from "../utils/MediaPlayerAdapter";
+import { IPlaybackStatus, ISyncHealth, IUserData } from "./usePresence";
+
+// How often followers measure their offset
+const MEASURE_INTERVAL_MS = 1000;
+// Minimum time between presence updates, so drift doesn't flood the session
+const PUBLISH_INTERVAL_MS = 5000;
+// Offset changes smaller than this aren't worth publishing
+const PUBLISH_OFFSET_THRESHOLD = 0.25;
+
+/**
+ * Hook that measures how far the local player has drifted from the presenter
+ *
+ * @remarks
+ * The presenter's position comes from the playback status it publishes through presence
+ * with a global timestamp, see `usePlaybackStatus`. Every follower extrapolates where the
+ * presenter is now from it. The resulting offset is returned for the local user and
+ * published through presence, so everyone can see each client's sync health.
+ */
+export const useSyncHealth = (
+    player: MediaPlayerAdapter | null,
+    localUserIsPresenting: boolean,
+    presenterStatus: IPlaybackStatus | undefined,
+    suspended: boolean,
+    selectedMediaItem: MediaItem | undefined,
+    updateUserData: (data: Partial<IUserData>) => boolean
+) => {
+    const { timestampProvider } = useLiveShareContext();
+    const [offset, setOffset] = useState<number | null>(null);
+    const [buffering, setBuffering] = useState(false);
+    const lastPublishedRef = useRef<{ health: ISyncHealth; at: number }>();
+
+    // Track buffering state for every client
+    useEffect(() => {
+        if (!player) return;
+        const onWaiting = () => setBuffering(true);
+        const onResumed = () => setBuffering(false);
+        const resumedEvents = [
+            PlayerEvent.playing,
+            PlayerEvent.canPlay,
+            PlayerEvent.seeked,
+            PlayerEvent.emptied,
+        ];
+        player.addEventListener(PlayerEvent.waiting, onWaiting);
+        resumedEvents.forEach((event) => {
+            player.addEventListener(event, onResumed);
+        });
+        setBuffering(false);
+        return () => {
+            player.removeEventListener(PlayerEvent.waiting, onWaiting);
+            resumedEvents.forEach((event) => {
+                player.removeEventListener(event, onResumed);
+            });
+        };
+    }, [player]);
+
+    // Followers: measure offset against the presenter's extrapolated position
+    useEffect(() => {
+        if (
+            !player ||
+            localUserIsPresenting ||
+            !presenterStatus ||
+            !timestampProvider ||
+            presenterStatus.mediaId !== selectedMediaItem?.id
+        ) {
+            setOffset(null);
+            return;
+        }
+        const measure = () => {
+            const elapsed =
+                (timestampProvider.getTimestamp() - presenterStatus.timestamp) /
+                1000;
+            const expectedPosition = presenterStatus.playing
+                ? presenterStatus.position +
+                  elapsed * presenterStatus.playbackRate
+                : presenterStatus.position;
+            setOffset(player.currentTime - expectedPosition);
+        };
+        measure();
+        const interval = setInterval(measure, MEASURE_INTERVAL_MS);
+        return () => {
+            clearInterval(interval);
+        };
+    }, [
+        player,
+        localUserIsPresenting,
+        presenterStatus,
+        timestampProvider,
+        selectedMediaItem?.id,
+    ]);
+
+    // Publish sync health through presence when it changes meaningfully
+    useEffect(() => {
+        const health: ISyncHealth = { offset, buffering, suspended };
+        const lastPublished = lastPublishedRef.current;
+        const now = Date.now();
+        if (lastPublished) {
+            const statusChanged =
+                lastPublished.health.buffering !== buffering ||
+                lastPublished.health.suspended !== suspended ||
+                (lastPublished.health.offset === null) !== (offset === null);
+            const offsetChanged =
+                Math.abs((lastPublished.health.offset ?? 0) - (offset ?? 0)) >=
+                PUBLISH_OFFSET_THRESHOLD;
+            if (!statusChanged && !offsetChanged) return;
+            if (!statusChanged && now - lastPublished.at < PUBLISH_INTERVAL_MS)
+                return;
+        }
+        if (updateUserData({ syncHealth: health })) {
+            lastPublishedRef.current = { health, at: now };
+        }
+    }, [offset, buffering, suspended, updateUserData]);
+
+    return {
+        syncOffset: offset,
+        buffering,
+    };
+};
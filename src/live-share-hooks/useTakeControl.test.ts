@@ -0,0 +1,402 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { act, renderHook } from "@testing-library/react";
+import { createContext, createElement, ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    MockContainerRuntimeFactory,
+    MockFluidDataStoreRuntime,
+    MockStorage,
+} from "@fluidframework/test-runtime-utils";
+import { SharedMap } from "fluid-framework";
+import {
+    LivePresenceUser,
+    PresenceState,
+    TestLiveShareHost,
+    UserMeetingRole,
+} from "@microsoft/live-share";
+import { DEFAULT_PERMISSIONS, UNIQUE_KEYS } from "../constants";
+import { IUserData } from "./usePresence";
+import {
+    PRESENTER_HANDOFF_GRACE_MS,
+    rankByControlHistory,
+    useTakeControl,
+} from "./useTakeControl";
+
+// Shared maps of the client a hook is rendered for, by unique key
+const ClientContext = createContext(new Map<string, SharedMap>());
+
+// Sequences ops between clients, like the Fluid service would
+let containerRuntimeFactory: MockContainerRuntimeFactory;
+
+// The hook only needs shared maps and a timestamp provider. Each client gets its own copy
+// of the real SharedMap DDS, and ops only reach the other clients when they're delivered,
+// instead of connecting containers to a local Fluid service.
+vi.mock("@microsoft/live-share-react", async () => {
+    const { useCallback, useContext, useEffect, useState } = await import(
+        "react"
+    );
+    return {
+        useSharedMap: (uniqueKey: string) => {
+            const sharedMap = useContext(ClientContext).get(uniqueKey);
+            if (!sharedMap) {
+                throw new Error(`useSharedMap: no shared map for ${uniqueKey}`);
+            }
+            const [map, setMap] = useState(() => new Map(sharedMap));
+            useEffect(() => {
+                const onChanged = () => setMap(new Map(sharedMap));
+                sharedMap.on("valueChanged", onChanged);
+                sharedMap.on("clear", onChanged);
+                return () => {
+                    sharedMap.off("valueChanged", onChanged);
+                    sharedMap.off("clear", onChanged);
+                };
+            }, [sharedMap]);
+            const setEntry = useCallback(
+                (key: string, value: unknown) => sharedMap.set(key, value),
+                [sharedMap]
+            );
+            const deleteEntry = useCallback(
+                (key: string) => sharedMap.delete(key),
+                [sharedMap]
+            );
+            return { map, sharedMap, setEntry, deleteEntry };
+        },
+        useLiveShareContext: () => ({
+            timestampProvider: { getTimestamp: () => Date.now() },
+        }),
+    };
+});
+
+// Connect a client's copy of each shared map used by the hook
+function createClient(): Map<string, SharedMap> {
+    const sharedMaps = new Map<string, SharedMap>();
+    [UNIQUE_KEYS.takeControl, UNIQUE_KEYS.controlRequests].forEach(
+        (uniqueKey) => {
+            // The mock runtime sends every op to all of its channels, so each map gets one
+            const dataStoreRuntime = new MockFluidDataStoreRuntime();
+            const containerRuntime =
+                containerRuntimeFactory.createContainerRuntime(
+                    dataStoreRuntime
+                );
+            const sharedMap = SharedMap.getFactory().create(
+                dataStoreRuntime,
+                uniqueKey
+            ) as SharedMap;
+            sharedMap.connect({
+                deltaConnection: containerRuntime.createDeltaConnection(),
+                objectStorage: new MockStorage(),
+            });
+            sharedMaps.set(uniqueKey, sharedMap);
+        }
+    );
+    return sharedMaps;
+}
+
+// Send pending ops to every client, in the order they were sequenced
+function deliverOps() {
+    act(() => {
+        containerRuntimeFactory.processAllMessages();
+    });
+}
+
+// Users get their roles from a TestLiveShareHost, the same way clients do in local testing
+const host = TestLiveShareHost.create() as TestLiveShareHost;
+host.addClient("presenter", [UserMeetingRole.presenter])
+    .addClient("organizer", [UserMeetingRole.organizer])
+    .addClient("second-presenter", [UserMeetingRole.presenter])
+    .addClient("attendee", [UserMeetingRole.attendee]);
+
+async function createUser(
+    clientId: string,
+    state: PresenceState,
+    joinedTimestamp: number
+): Promise<LivePresenceUser<IUserData>> {
+    const { userId, displayName, roles } = await host.getClientInfo(clientId);
+    return {
+        userId,
+        displayName,
+        roles,
+        state,
+        data: { joinedTimestamp },
+    } as LivePresenceUser<IUserData>;
+}
+
+describe("rankByControlHistory", () => {
+    const user = (userId: string, joinedTimestamp: number) => ({
+        userId,
+        state: PresenceState.online,
+        data: { joinedTimestamp },
+    });
+
+    it("puts the user most recently in control first", () => {
+        const ranked = rankByControlHistory(
+            [user("a", 1), user("b", 2), user("c", 3)],
+            new Map([
+                ["a", 100],
+                ["c", 300],
+            ])
+        );
+        expect(ranked.map((rankedUser) => rankedUser.userId)).toEqual([
+            "c",
+            "a",
+            "b",
+        ]);
+    });
+
+    it("orders users never in control by when they joined", () => {
+        const ranked = rankByControlHistory(
+            [user("a", 30), user("b", 10), user("c", 20)],
+            new Map()
+        );
+        expect(ranked.map((rankedUser) => rankedUser.userId)).toEqual([
+            "b",
+            "c",
+            "a",
+        ]);
+    });
+
+    it("orders users who joined at the same time by ID", () => {
+        const ranked = rankByControlHistory(
+            [user("c", 10), user("a", 10), user("b", 10)],
+            new Map([["b", 100]])
+        );
+        expect(ranked.map((rankedUser) => rankedUser.userId)).toEqual([
+            "b",
+            "a",
+            "c",
+        ]);
+    });
+});
+
+describe("useTakeControl presenter handoff", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        containerRuntimeFactory = new MockContainerRuntimeFactory();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const renderTakeControl = (
+        client: Map<string, SharedMap>,
+        localUser: LivePresenceUser<IUserData>,
+        users: LivePresenceUser<IUserData>[]
+    ) => {
+        const sendNotification = vi.fn();
+        const result = renderHook(
+            ({ users }) =>
+                useTakeControl(
+                    localUser,
+                    true,
+                    DEFAULT_PERMISSIONS,
+                    users,
+                    sendNotification
+                ),
+            {
+                initialProps: { users },
+                wrapper: ({ children }: { children: ReactNode }) =>
+                    createElement(
+                        ClientContext.Provider,
+                        { value: client },
+                        children
+                    ),
+            }
+        );
+        return { ...result, sendNotification };
+    };
+
+    // The presenter was the last to take control, before disconnecting
+    const setUpClients = (count: number) => {
+        const clients = Array.from({ length: count }, createClient);
+        clients[0].get(UNIQUE_KEYS.takeControl)?.set("presenter", Date.now());
+        containerRuntimeFactory.processAllMessages();
+        return clients;
+    };
+
+    it("hands control to the successor after the grace period", async () => {
+        const presenter = await createUser(
+            "presenter",
+            PresenceState.offline,
+            1
+        );
+        const successor = await createUser(
+            "organizer",
+            PresenceState.online,
+            2
+        );
+        const observer = await createUser("attendee", PresenceState.online, 3);
+        const users = [presenter, successor, observer];
+        const [successorClient, observerClient] = setUpClients(2);
+        const { result, sendNotification } = renderTakeControl(
+            successorClient,
+            successor,
+            users
+        );
+        const observed = renderTakeControl(observerClient, observer, users);
+        expect(result.current.presentingUser?.userId).toBe("presenter");
+
+        act(() => {
+            vi.advanceTimersByTime(PRESENTER_HANDOFF_GRACE_MS - 1);
+        });
+        expect(result.current.presentingUser?.userId).toBe("presenter");
+
+        act(() => {
+            vi.advanceTimersByTime(1);
+        });
+        expect(result.current.presentingUser?.userId).toBe("organizer");
+        expect(result.current.localUserIsPresenting).toBe(true);
+        expect(sendNotification).toHaveBeenCalledWith("is now presenting");
+        // Other clients see the new presenter once the op reaches them
+        expect(observed.result.current.presentingUser?.userId).toBe(
+            "presenter"
+        );
+
+        deliverOps();
+        expect(observed.result.current.presentingUser?.userId).toBe(
+            "organizer"
+        );
+        expect(observed.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it("keeps the presenter if they come back within the grace period", async () => {
+        const presenter = await createUser(
+            "presenter",
+            PresenceState.offline,
+            1
+        );
+        const successor = await createUser(
+            "organizer",
+            PresenceState.online,
+            2
+        );
+        const [successorClient] = setUpClients(1);
+        const { result, rerender, sendNotification } = renderTakeControl(
+            successorClient,
+            successor,
+            [presenter, successor]
+        );
+
+        act(() => {
+            vi.advanceTimersByTime(PRESENTER_HANDOFF_GRACE_MS / 2);
+        });
+        const returnedPresenter = await createUser(
+            "presenter",
+            PresenceState.online,
+            1
+        );
+        rerender({ users: [returnedPresenter, successor] });
+        act(() => {
+            vi.advanceTimersByTime(PRESENTER_HANDOFF_GRACE_MS);
+        });
+        deliverOps();
+
+        expect(result.current.presentingUser?.userId).toBe("presenter");
+        expect(result.current.localUserIsPresenting).toBe(false);
+        expect(sendNotification).not.toHaveBeenCalled();
+    });
+
+    it("skips offline and ineligible users when choosing the successor", async () => {
+        const presenter = await createUser(
+            "presenter",
+            PresenceState.offline,
+            1
+        );
+        // Joined first, but can't take control with the default permissions
+        const attendee = await createUser("attendee", PresenceState.online, 2);
+        // Next in line, but also offline
+        const offlineSuccessor = await createUser(
+            "organizer",
+            PresenceState.offline,
+            3
+        );
+        const onlineSuccessor = await createUser(
+            "second-presenter",
+            PresenceState.online,
+            4
+        );
+        const users = [presenter, attendee, offlineSuccessor, onlineSuccessor];
+        const [attendeeClient, offlineClient, onlineClient] = setUpClients(3);
+
+        const observed = renderTakeControl(attendeeClient, attendee, users);
+        const offline = renderTakeControl(
+            offlineClient,
+            offlineSuccessor,
+            users
+        );
+        const online = renderTakeControl(onlineClient, onlineSuccessor, users);
+        act(() => {
+            vi.advanceTimersByTime(PRESENTER_HANDOFF_GRACE_MS);
+        });
+        deliverOps();
+
+        expect(offline.sendNotification).not.toHaveBeenCalled();
+        expect(online.sendNotification).toHaveBeenCalledWith(
+            "is now presenting"
+        );
+        [observed, offline, online].forEach(({ result }) => {
+            expect(result.current.presentingUser?.userId).toBe(
+                "second-presenter"
+            );
+        });
+    });
+
+    it("hands control back to the presenter when they take it again", async () => {
+        const presenter = await createUser(
+            "presenter",
+            PresenceState.offline,
+            1
+        );
+        const successor = await createUser(
+            "organizer",
+            PresenceState.online,
+            2
+        );
+        const [presenterClient, successorClient] = setUpClients(2);
+        const handedOff = renderTakeControl(successorClient, successor, [
+            presenter,
+            successor,
+        ]);
+        act(() => {
+            vi.advanceTimersByTime(PRESENTER_HANDOFF_GRACE_MS);
+        });
+        deliverOps();
+
+        // The presenter reconnects, sees the handoff, and takes control back
+        const returnedPresenter = await createUser(
+            "presenter",
+            PresenceState.online,
+            1
+        );
+        const users = [returnedPresenter, successor];
+        handedOff.rerender({ users });
+        const returned = renderTakeControl(
+            presenterClient,
+            returnedPresenter,
+            users
+        );
+        expect(returned.result.current.presentingUser?.userId).toBe(
+            "organizer"
+        );
+        act(() => {
+            vi.advanceTimersByTime(1);
+            returned.result.current.takeControl();
+        });
+        expect(handedOff.result.current.presentingUser?.userId).toBe(
+            "organizer"
+        );
+
+        deliverOps();
+        expect(returned.result.current.presentingUser?.userId).toBe(
+            "presenter"
+        );
+        expect(handedOff.result.current.presentingUser?.userId).toBe(
+            "presenter"
+        );
+        expect(handedOff.result.current.localUserIsPresenting).toBe(false);
+    });
+});
@@ -1,52 +1,69 @@
-import { useCallback, useMemo } from "react";
-import { LivePresenceUser } from "@microsoft/live-share";
+import { useCallback, useEffect, useMemo } from "react";
+import { LivePresenceUser, PresenceState } from "@microsoft/live-share";
 import { IUserData } from "./usePresence";
+import { hasPermission } from "./usePermissions";
 import {
     SendLiveEventAction,
     useLiveShareContext,
     useSharedMap,
 } from "@microsoft/live-share-react";
-import { UNIQUE_KEYS } from "../constants";
+import { PermissionMatrix, UNIQUE_KEYS } from "../constants";
+
+// How long the presenter can be offline before control is handed to the next user
+export const PRESENTER_HANDOFF_GRACE_MS = 10000;
+// How long the presenter has to respond to a control request before it is granted
+export const CONTROL_REQUEST_TIMEOUT_MS = 15000;
+
+export interface IControlRequest {
+    userId: string;
+    displayName?: string;
+    // Global timestamp (from timestampProvider) the request was made at
+    requestedAt: number;
+}
 
 export const useTakeControl = (
     localUser: LivePresenceUser<IUserData> | undefined,
     localUserIsEligiblePresenter: boolean,
+    permissions: PermissionMatrix,
     users: LivePresenceUser<IUserData>[],
     sendNotification: SendLiveEventAction<string>
 ) => {
     const { sharedMap: takeControlMap, map: history } = useSharedMap<number>(
         UNIQUE_KEYS.takeControl
     );
+    const {
+        map: requestsMap,
+        setEntry: setRequest,
+        deleteEntry: deleteRequest,
+    } = useSharedMap<IControlRequest>(UNIQUE_KEYS.controlRequests);
     const { timestampProvider } = useLiveShareContext();
 
+    // Eligible users, ordered by who should be presenting.
+    // Users whose roles can't take control are never the presenter.
+    const rankedUsers = useMemo(
+        () =>
+            rankByControlHistory(
+                users.filter((user) =>
+                    hasPermission(permissions, "takeControl", user.roles)
+                ),
+                history
+            ),
+        [history, users, permissions]
+    );
+
     // Computed presentingUser object based on most recent online user to take control
-    const presentingUser = useMemo(() => {
-        const mappedUsers = users.map((user) => {
-            return {
-                userId: user.userId,
-                state: user.state,
-                data: user.data,
-                lastInControlTimestamp: user.userId
-                    ? history.get(user.userId)
-                    : 0,
-            };
-        });
-        mappedUsers.sort((a, b) => {
-            // Sort by joined timestamp in descending
-            if (a.lastInControlTimestamp === b.lastInControlTimestamp) {
-                return (
-                    (a.data?.joinedTimestamp ?? 0) -
-                    (b.data?.joinedTimestamp ?? 0)
-                );
-            }
-            // Sort by last in control time in ascending
-            return (
-                (b.lastInControlTimestamp ?? 0) -
-                (a.lastInControlTimestamp ?? 0)
-            );
-        });
-        return mappedUsers[0];
-    }, [history, users]);
+    const presentingUser = rankedUsers[0];
+
+    // User who takes over if the presenter disconnects
+    const successor = useMemo(
+        () =>
+            rankedUsers.find(
+                (user) =>
+                    user.userId !== presentingUser?.userId &&
+                    user.state === PresenceState.online
+            ),
+        [rankedUsers, presentingUser]
+    );
 
     // Local user is the presenter
     const localUserIsPresenting = useMemo(() => {
@@ -56,6 +73,12 @@ export const useTakeControl = (
         return localUser.userId === presentingUser.userId;
     }, [localUser, presentingUser]);
 
+    // Presenter is online and can respond to control requests
+    const presenterIsOnline = useMemo(() => {
+        if (!presentingUser || localUserIsPresenting) return false;
+        return presentingUser.state === PresenceState.online;
+    }, [presentingUser, localUserIsPresenting]);
+
     // Set the local user ID
     const takeControl = useCallback(() => {
         if (!!localUser?.userId && localUserIsEligiblePresenter) {
@@ -73,10 +96,211 @@ export const useTakeControl = (
         sendNotification,
     ]);
 
+    // Pending requests from online users, oldest first
+    const controlRequests = useMemo(() => {
+        const onlineUserIds = new Set(
+            users
+                .filter((user) => user.state === PresenceState.online)
+                .map((user) => user.userId)
+        );
+        return [...requestsMap.values()]
+            .filter((request) => onlineUserIds.has(request.userId))
+            .sort((a, b) => a.requestedAt - b.requestedAt);
+    }, [requestsMap, users]);
+
+    const localControlRequest = localUser?.userId
+        ? requestsMap.get(localUser.userId)
+        : undefined;
+
+    // Ask the presenter for control, or take it right away if nobody can respond
+    const requestControl = useCallback(() => {
+        if (!localUser?.userId || !localUserIsEligiblePresenter) return;
+        if (localUserIsPresenting || localControlRequest) return;
+        if (!presenterIsOnline || !timestampProvider) {
+            takeControl();
+            return;
+        }
+        setRequest(localUser.userId, {
+            userId: localUser.userId,
+            displayName: localUser.displayName,
+            requestedAt: timestampProvider.getTimestamp(),
+        });
+        sendNotification?.("requested control");
+    }, [
+        localUser,
+        localUserIsEligiblePresenter,
+        localUserIsPresenting,
+        localControlRequest,
+        presenterIsOnline,
+        timestampProvider,
+        takeControl,
+        setRequest,
+        sendNotification,
+    ]);
+
+    const cancelControlRequest = useCallback(() => {
+        if (!localUser?.userId || !localControlRequest) return;
+        deleteRequest(localUser.userId);
+    }, [localUser, localControlRequest, deleteRequest]);
+
+    // Presenter only: hand control to the requesting user
+    const acceptControlRequest = useCallback(
+        (userId: string) => {
+            const request = requestsMap.get(userId);
+            if (!localUserIsPresenting || !request) return;
+            takeControlMap?.set(userId, timestampProvider?.getTimestamp());
+            deleteRequest(userId);
+            sendNotification?.(
+                `gave control to ${request.displayName ?? "another user"}`
+            );
+        },
+        [
+            requestsMap,
+            localUserIsPresenting,
+            takeControlMap,
+            timestampProvider,
+            deleteRequest,
+            sendNotification,
+        ]
+    );
+
+    // Presenter only: turn down the request
+    const denyControlRequest = useCallback(
+        (userId: string) => {
+            const request = requestsMap.get(userId);
+            if (!localUserIsPresenting || !request) return;
+            deleteRequest(userId);
+            sendNotification?.(
+                `denied ${
+                    request.displayName ?? "another user"
+                }'s request for control`
+            );
+        },
+        [requestsMap, localUserIsPresenting, deleteRequest, sendNotification]
+    );
+
+    // Successor takes control once the presenter has been offline for the grace period.
+    // Every client ranks users the same way, so only one of them acts.
+    useEffect(() => {
+        if (
+            !presentingUser ||
+            presentingUser.state !== PresenceState.offline ||
+            !successor ||
+            !localUser?.userId ||
+            successor.userId !== localUser.userId ||
+            !localUserIsEligiblePresenter
+        )
+            return;
+        const timeout = setTimeout(() => {
+            takeControlMap?.set(
+                successor.userId,
+                timestampProvider?.getTimestamp()
+            );
+            sendNotification?.("is now presenting");
+        }, PRESENTER_HANDOFF_GRACE_MS);
+        return () => {
+            clearTimeout(timeout);
+        };
+    }, [
+        presentingUser?.userId,
+        presentingUser?.state,
+        successor?.userId,
+        localUser?.userId,
+        localUserIsEligiblePresenter,
+        takeControlMap,
+        timestampProvider,
+        sendNotification,
+    ]);
+
+    // Requester grants its own request if the presenter doesn't respond in time or goes offline
+    useEffect(() => {
+        if (!localControlRequest || !localUser?.userId || !timestampProvider)
+            return;
+        const grant = () => {
+            deleteRequest(localControlRequest.userId);
+            takeControl();
+        };
+        if (localUserIsPresenting) {
+            // Control was handed over, so the request is done
+            deleteRequest(localControlRequest.userId);
+            return;
+        }
+        if (!presenterIsOnline) {
+            grant();
+            return;
+        }
+        const delay = Math.max(
+            0,
+            localControlRequest.requestedAt +
+                CONTROL_REQUEST_TIMEOUT_MS -
+                timestampProvider.getTimestamp()
+        );
+        const timeout = setTimeout(grant, delay);
+        return () => {
+            clearTimeout(timeout);
+        };
+    }, [
+        localControlRequest,
+        localUser?.userId,
+        localUserIsPresenting,
+        presenterIsOnline,
+        timestampProvider,
+        takeControl,
+        deleteRequest,
+    ]);
+
     return {
         takeControlStarted: !!takeControlMap,
         presentingUser,
         localUserIsPresenting,
         takeControl,
+        presenterIsOnline,
+        controlRequests,
+        localControlRequest,
+        requestControl,
+        cancelControlRequest,
+        acceptControlRequest,
+        denyControlRequest,
     };
 };
+
+export interface IRankedUser {
+    userId: string;
+    state: PresenceState;
+    data?: IUserData;
+    lastInControlTimestamp?: number;
+}
+
+/**
+ * Order users by most recently in control, then earliest joined, then ID so that every
+ * client agrees on the order.
+ */
+export function rankByControlHistory(
+    users: Pick<LivePresenceUser<IUserData>, "userId" | "state" | "data">[],
+    history: ReadonlyMap<string, number>
+): IRankedUser[] {
+    const mappedUsers: IRankedUser[] = users.map((user) => {
+        return {
+            userId: user.userId,
+            state: user.state,
+            data: user.data,
+            lastInControlTimestamp: user.userId ? history.get(user.userId) : 0,
+        };
+    });
+    mappedUsers.sort((a, b) => {
+        if (a.lastInControlTimestamp === b.lastInControlTimestamp) {
+            // Sort by joined timestamp in ascending
+            const joinedDifference =
+                (a.data?.joinedTimestamp ?? 0) - (b.data?.joinedTimestamp ?? 0);
+            if (joinedDifference !== 0) {
+                return joinedDifference;
+            }
+            return a.userId.localeCompare(b.userId);
+        }
+        // Sort by last in control time in descending
+        return (
+            (b.lastInControlTimestamp ?? 0) - (a.lastInControlTimestamp ?? 0)
+        );
+    });
+    return mappedUsers;
+}
@@ -3,20 +3,39 @@
  * Licensed under the MIT License.
  */
 
-import { useEffect, useState, useRef, FC } from "react";
+import { useEffect, useState, useRef, useMemo, useCallback, FC } from "react";
 import * as liveShareHooks from "../live-share-hooks";
 import {
     LiveNotifications,
     LiveSharePage,
     MediaPlayerContainer,
+    UpNextOverlay,
 } from "../components";
-import { AzureMediaPlayer } from "../utils/AzureMediaPlayer";
+import {
+    MediaPlayerAdapter,
+    MediaPlayerKind,
+} from "../utils/MediaPlayerAdapter";
+import {
+    createMediaPlayer,
+    getMediaPlayerKind,
+    MEDIA_ELEMENT_IDS,
+} from "../utils/media-player";
+import { useMediaChapters } from "../utils/useMediaChapters";
+import { LocalFileInkStorage } from "../utils/ink-storage";
+import { IProgressMarker } from "../components/PlayerProgressBar";
+import { ILocalNotification } from "../components/LiveNotifications";
+import { ControlRequestOverlay } from "../components/ControlRequestOverlay";
+import { RosterOverlay } from "../components/RosterOverlay";
+import { IndependentViewersOverlay } from "../components/IndependentViewersOverlay";
 import { useTeamsContext } from "../teams-js-hooks/useTeamsContext";
 import { LiveShareProvider } from "@microsoft/live-share-react";
 import { IN_TEAMS } from "../constants";
 import { LiveShareHost } from "@microsoft/teams-js";
 import { TestLiveShareHost } from "@microsoft/live-share";
 
+// Where "Save ink" and "Load ink" read and write strokes
+const inkStorage = new LocalFileInkStorage();
+
 const MeetingStage: FC = () => {
     // Teams context
     const context = useTeamsContext();
@@ -42,33 +61,63 @@ const MeetingStageContent: FC = () => {
     // Element ref for inking canvas
     const canvasRef = useRef<HTMLDivElement | null>(null);
     // Media player
-    const [player, setPlayer] = useState<AzureMediaPlayer | null>(null);
-    // Flag tracking whether player setup has started
-    const playerSetupStarted = useRef(false);
+    const [player, setPlayer] = useState<MediaPlayerAdapter | null>(null);
+    // Player that is currently set, so it can be disposed when replaced
+    const playerRef = useRef<MediaPlayerAdapter | null>(null);
+    // Kind of the player that has been set up or is being set up
+    const playerSetupKind = useRef<MediaPlayerKind>();
 
     // Presence hook
-    const { allUsers, localUser, localUserIsEligiblePresenter } =
+    const { allUsers, localUser, updateUserData } =
         liveShareHooks.usePresence();
 
     const { notificationToDisplay, sendNotification } =
         liveShareHooks.useNotifications(allUsers);
+    // Notification only the local user sees, such as a snapshot failing
+    const [localNotification, setLocalNotification] =
+        useState<ILocalNotification>();
+    const showLocalNotification = useCallback((text: string) => {
+        setLocalNotification({ text });
+    }, []);
+
+    // Permissions hook
+    const {
+        permissions, // roles allowed to perform each action
+        localPermissions, // actions the local user is allowed to perform
+    } = liveShareHooks.usePermissions(localUser, sendNotification);
 
     // Take control map
     const {
         localUserIsPresenting, // boolean that is true if local user is currently presenting
-        takeControl, // callback method to take control of playback
+        presentingUser, // user who is currently in control of playback
+        presenterIsOnline, // boolean that is true if another user is presenting and online
+        controlRequests, // pending requests to take control
+        localControlRequest, // the local user's pending request, if any
+        requestControl, // callback method to ask the presenter for control
+        cancelControlRequest, // callback method to withdraw the local user's request
+        acceptControlRequest, // callback method for the presenter to hand over control
+        denyControlRequest, // callback method for the presenter to turn down a request
     } = liveShareHooks.useTakeControl(
         localUser,
-        localUserIsEligiblePresenter,
+        localPermissions.takeControl,
+        permissions,
         allUsers,
         sendNotification
     );
 
     // Playlist map
     const {
+        mediaItems, // ordered list of media items in the playlist
         selectedMediaItem, // selected media item object, or undefined if unknown
+        upcomingMediaItem, // media item to play when the selected track ends
+        selectMediaId, // callback method to change the selected media item
         nextTrack, // callback method to skip to the next track
-    } = liveShareHooks.usePlaylist(sendNotification);
+        previousTrack, // callback method to go back to the previous track
+        repeat, // repeat mode of the playlist: "off", "one" or "all"
+        setRepeat, // callback method to change the repeat mode
+        shuffle, // boolean that is true if the playlist is shuffled
+        setShuffle, // callback method to toggle shuffle
+    } = liveShareHooks.usePlaylist(localPermissions, sendNotification);
 
     // Media session hook
     const {
@@ -77,13 +126,136 @@ const MeetingStageContent: FC = () => {
         pause, // callback method to synchronize a pause action
         seekTo, // callback method to synchronize a seekTo action
         endSuspension, // callback method to end the synchronizer suspension
+        playbackRate, // playback rate the presenter set for everyone
+        setPlaybackRate, // callback method to change the playback rate for everyone
+        volumeManager, // volume manager that ducks relative to the local user's volume
     } = liveShareHooks.useMediaSession(
         localUserIsPresenting,
+        localPermissions.playback,
+        player,
+        selectedMediaItem,
+        sendNotification
+    );
+
+    // Publish the local playback position for the roster and sync health
+    liveShareHooks.usePlaybackStatus(player, selectedMediaItem, updateUserData);
+
+    // Audio ducking hook
+    const {
+        duckingSettings, // local user's settings for when someone in the meeting speaks
+        setDuckingSettings, // callback method to change the local ducking settings
+        isSpeaking, // boolean that is true while someone in the meeting is speaking
+        simulateSpeaking, // callback method to simulate speech outside of Teams, if available
+    } = liveShareHooks.useAudioDucking(
+        player,
+        volumeManager,
+        localUserIsPresenting,
+        suspended,
+        play,
+        pause,
+        endSuspension
+    );
+
+    // Sync health hook
+    const {
+        syncOffset, // seconds the local player is ahead of the presenter, or null if unknown
+        buffering, // boolean that is true if the local player is buffering
+    } = liveShareHooks.useSyncHealth(
+        player,
+        localUserIsPresenting,
+        presentingUser?.data?.playbackStatus,
+        suspended,
+        selectedMediaItem,
+        updateUserData
+    );
+
+    // Participants, presenter first
+    const rosterEntries = liveShareHooks.useRoster(
+        allUsers,
+        localUser?.userId,
+        presentingUser?.userId
+    );
+
+    // Independent viewers hook
+    const {
+        independentViewers, // other users who stopped following the presenter
+        bringEveryoneBack, // callback method for the presenter to end everyone's suspension
+    } = liveShareHooks.useIndependentViewers(
+        allUsers,
+        rosterEntries,
+        localUser?.userId,
+        localUserIsPresenting,
+        presentingUser?.userId,
+        suspended,
+        endSuspension,
+        sendNotification
+    );
+
+    // Auto-advance hook
+    const {
+        autoAdvanceEnabled, // boolean that is true if the next track plays when one ends
+        setAutoAdvanceEnabled, // callback method to toggle auto-advance for the session
+        upNext, // pending auto-advance, or undefined if there is none
+        upNextSecondsRemaining, // seconds left before advancing
+        cancelUpNext, // callback method to cancel the pending auto-advance
+    } = liveShareHooks.useAutoAdvance(
         player,
+        localUserIsPresenting,
+        selectedMediaItem,
+        upcomingMediaItem,
+        selectMediaId,
+        play,
+        seekTo,
+        sendNotification
+    );
+
+    // Bookmarks hook
+    const {
+        bookmarks, // bookmarks on the selected media item, sorted by time
+        addBookmark, // callback method to add a bookmark at a given time
+        removeBookmark, // callback method to remove a bookmark
+    } = liveShareHooks.useBookmarks(
+        selectedMediaItem,
+        localUser,
+        sendNotification
+    );
+
+    // Captions hook
+    const {
+        subtitleTracks, // subtitle tracks of the selected media item
+        activeTrack, // subtitle track shown to the local user, or undefined if off
+        setCaptionsLanguage, // callback method to pick the local caption language
+        forceCaptions, // boolean that is true if the presenter turned captions on for everyone
+        setForceCaptions, // callback method to force captions on for everyone
+        cues: captionCues, // cues of the active subtitle track
+    } = liveShareHooks.useCaptions(
+        localUserIsPresenting,
         selectedMediaItem,
         sendNotification
     );
 
+    // Chapters of the selected media item
+    const chapters = useMediaChapters(selectedMediaItem);
+
+    // Chapters and bookmarks drawn on the progress bar
+    const progressMarkers: IProgressMarker[] = useMemo(
+        () => [
+            ...chapters.map((chapter, index) => ({
+                id: `${index}`,
+                time: chapter.startTime,
+                title: chapter.title,
+                kind: "chapter" as const,
+            })),
+            ...bookmarks.map((bookmark) => ({
+                id: bookmark.id,
+                time: bookmark.time,
+                title: bookmark.title,
+                kind: "bookmark" as const,
+            })),
+        ],
+        [chapters, bookmarks]
+    );
+
     // useLiveCanvas hook will insert the canvas as a child of hosting element
     // and starts the Live Inking session.It returns set of callbacks for clearing
     // the canvas, changing Ink tool type, and brush colors.
@@ -92,48 +264,229 @@ const MeetingStageContent: FC = () => {
         liveCanvas, // LiveCanvas instance
     } = liveShareHooks.useInkingManager(canvasRef);
 
-    // Set up the media player
+    // Ink callouts hook
+    const {
+        inkCallouts, // text callouts placed over the video
+        addInkCallout, // callback method to place a text callout
+        restoreInkCallout, // callback method to add a saved text callout
+        removeInkCallout, // callback method to remove a text callout
+        removeInkCalloutsForMedia, // callback method to remove the callouts on a media item
+        clearInkCallouts, // callback method to remove every callout
+    } = liveShareHooks.useInkCallouts(
+        inkingManager,
+        player,
+        selectedMediaItem,
+        localPermissions.ink
+    );
+
+    // Ink anchors hook, which shows strokes only around the media time they were drawn at
+    const {
+        clearInkOnChange, // boolean that is true if the presenter's seeks and track changes clear ink
+        setClearInkOnChange, // callback method for the presenter to change clearInkOnChange
+        clearAllInk, // callback method to clear the ink on every media item
+        getAnchoredStrokes, // callback method to get every stroke with its anchor
+        addAnchoredStroke, // callback method to add a stroke at a given media time
+    } = liveShareHooks.useInkAnchors(
+        inkingManager,
+        player,
+        selectedMediaItem,
+        localUserIsPresenting,
+        localPermissions.ink,
+        removeInkCalloutsForMedia,
+        clearInkCallouts,
+        sendNotification
+    );
+
+    // Ink persistence hook
+    const {
+        saveInk, // callback method to save anchored strokes to storage
+        loadInk, // callback method to load strokes from storage and replay them
+        inkReplaying, // boolean that is true while loaded strokes are being replayed
+        stopInkReplay, // callback method to stop replaying loaded strokes
+    } = liveShareHooks.useInkPersistence(
+        inkStorage,
+        localPermissions.ink,
+        getAnchoredStrokes,
+        addAnchoredStroke,
+        inkCallouts,
+        restoreInkCallout,
+        sendNotification
+    );
+
+    // Kind of player needed for the selected media item
+    const playerKind = selectedMediaItem
+        ? getMediaPlayerKind(selectedMediaItem)
+        : undefined;
+
+    // Set up the media player, replacing it when the selected item needs a different kind
     useEffect(() => {
-        if (player || !selectedMediaItem || playerSetupStarted.current) return;
-        playerSetupStarted.current = true;
-        // Setup Azure Media Player
-        const amp = new AzureMediaPlayer("video", selectedMediaItem.src);
-        // Set player when AzureMediaPlayer is ready to go
+        if (
+            !selectedMediaItem ||
+            !playerKind ||
+            playerSetupKind.current === playerKind
+        )
+            return;
+        playerSetupKind.current = playerKind;
+        const newPlayer = createMediaPlayer(selectedMediaItem);
+        // Set player when the adapter is ready to go
         const onReady = () => {
-            setPlayer(amp);
-            amp.removeEventListener("ready", onReady);
+            newPlayer.removeEventListener("ready", onReady);
+            if (playerSetupKind.current !== newPlayer.kind) {
+                // A different kind of player was requested while this one was loading
+                newPlayer.dispose();
+                return;
+            }
+            playerRef.current?.dispose();
+            playerRef.current = newPlayer;
+            setPlayer(newPlayer);
+        };
+        newPlayer.addEventListener("ready", onReady);
+    }, [selectedMediaItem, playerKind, setPlayer]);
+
+    // Dispose the media player when unmounting
+    useEffect(() => {
+        return () => {
+            playerRef.current?.dispose();
         };
-        amp.addEventListener("ready", onReady);
-    }, [selectedMediaItem, player, setPlayer]);
+    }, []);
 
     return (
         <>
             {/* Display Notifications */}
-            <LiveNotifications notificationToDisplay={notificationToDisplay} />
+            <LiveNotifications
+                notificationToDisplay={notificationToDisplay}
+                localNotification={localNotification}
+            />
+            {/* Display auto-advance countdown */}
+            <UpNextOverlay
+                mediaItem={mediaItems.find(
+                    (mediaItem) => mediaItem.id === upNext?.mediaId
+                )}
+                secondsRemaining={upNextSecondsRemaining}
+                canCancel={localUserIsPresenting}
+                onCancel={cancelUpNext}
+            />
+            {/* Display participants */}
+            <RosterOverlay
+                entries={rosterEntries}
+                currentMediaId={selectedMediaItem?.id}
+            />
+            {/* Display viewers who stopped following to the presenter */}
+            <IndependentViewersOverlay
+                independentViewers={independentViewers}
+                localUserIsPresenting={localUserIsPresenting}
+                bringEveryoneBack={bringEveryoneBack}
+            />
+            {/* Display requests to take control to the presenter */}
+            <ControlRequestOverlay
+                controlRequests={controlRequests}
+                localUserIsPresenting={localUserIsPresenting}
+                acceptControlRequest={acceptControlRequest}
+                denyControlRequest={denyControlRequest}
+            />
             {/* Media Player */}
             <MediaPlayerContainer
                 player={player}
+                selectedMediaItem={selectedMediaItem}
                 localUserIsPresenting={localUserIsPresenting}
-                localUserIsEligiblePresenter={localUserIsEligiblePresenter}
+                localPermissions={localPermissions}
                 suspended={suspended}
                 canvasRef={canvasRef}
                 inkingManager={inkingManager}
+                clearInkOnChange={clearInkOnChange}
+                setClearInkOnChange={setClearInkOnChange}
+                clearAllInk={clearAllInk}
+                inkCallouts={inkCallouts}
+                addInkCallout={addInkCallout}
+                removeInkCallout={removeInkCallout}
+                saveInk={saveInk}
+                loadInk={loadInk}
+                inkReplaying={inkReplaying}
+                stopInkReplay={stopInkReplay}
                 liveCanvas={liveCanvas}
                 play={play}
                 pause={pause}
                 seekTo={seekTo}
-                takeControl={takeControl}
+                playbackRate={playbackRate}
+                setPlaybackRate={setPlaybackRate}
+                volumeManager={volumeManager}
+                duckingSettings={duckingSettings}
+                setDuckingSettings={setDuckingSettings}
+                isSpeaking={isSpeaking}
+                simulateSpeaking={simulateSpeaking}
+                presenterIsOnline={presenterIsOnline}
+                controlRequested={!!localControlRequest}
+                requestControl={requestControl}
+                cancelControlRequest={cancelControlRequest}
                 endSuspension={endSuspension}
                 nextTrack={nextTrack}
+                previousTrack={previousTrack}
+                repeat={repeat}
+                setRepeat={setRepeat}
+                shuffle={shuffle}
+                setShuffle={setShuffle}
+                autoAdvanceEnabled={autoAdvanceEnabled}
+                setAutoAdvanceEnabled={setAutoAdvanceEnabled}
+                progressMarkers={progressMarkers}
+                bookmarks={bookmarks}
+                addBookmark={addBookmark}
+                removeBookmark={removeBookmark}
+                subtitleTracks={subtitleTracks}
+                activeTrack={activeTrack}
+                setCaptionsLanguage={setCaptionsLanguage}
+                forceCaptions={forceCaptions}
+                setForceCaptions={setForceCaptions}
+                captionCues={captionCues}
+                syncOffset={syncOffset}
+                buffering={buffering}
+                users={allUsers}
+                localUserId={localUser?.userId}
+                showLocalNotification={showLocalNotification}
             >
-                {/* // Render video */}
-                <video
-                    id="video"
-                    className="azuremediaplayer amp-default-skin amp-big-play-centered"
-                />
+                {/* // Render media element */}
+                {playerKind && <MediaElement kind={playerKind} />}
             </MediaPlayerContainer>
         </>
     );
 };
 
+const MediaElement: FC<{ kind: MediaPlayerKind }> = ({ kind }) => {
+    // Each element is wrapped in a keyed div so that React only owns the wrapper, since
+    // Azure Media Player rearranges the DOM around the <video> element it is given.
+    // Media is requested with CORS so that snapshots can read frames from other origins.
+    switch (kind) {
+        case "amp":
+            return (
+                <div key={kind} style={{ width: "100%" }}>
+                    <video
+                        id={MEDIA_ELEMENT_IDS[kind]}
+                        crossOrigin="anonymous"
+                        className="azuremediaplayer amp-default-skin amp-big-play-centered"
+                    />
+                </div>
+            );
+        case "html5-audio":
+            return (
+                <div key={kind}>
+                    <audio
+                        id={MEDIA_ELEMENT_IDS[kind]}
+                        crossOrigin="anonymous"
+                    />
+                </div>
+            );
+        case "mse":
+        case "html5-video":
+        default:
+            return (
+                <div key={kind} style={{ width: "100%", height: "100%" }}>
+                    <video
+                        id={MEDIA_ELEMENT_IDS[kind]}
+                        crossOrigin="anonymous"
+                        style={{ width: "100%", height: "100%" }}
+                    />
+                </div>
+            );
+    }
+};
+
 export default MeetingStage;
@@ -6,11 +6,13 @@
 import { FC, useCallback, useEffect, useRef } from "react";
 import { useTeamsContext } from "../teams-js-hooks/useTeamsContext";
 import { useNavigate } from "react-router-dom";
-import { MediaItem, mediaList, searchList } from "../utils/media-list";
+import { MediaItem, mediaList } from "../utils/media-list";
+import { mediaCatalog } from "../utils/media-catalog";
 import { ListWrapper, LiveSharePage } from "../components";
 import * as liveShareHooks from "../live-share-hooks";
 import { useSharingStatus } from "../teams-js-hooks/useSharingStatus";
 import { TabbedList } from "../components/TabbedList";
+import { ControlRequestList } from "../components/ControlRequestList";
 import { LiveShareHost, app, meeting } from "@microsoft/teams-js";
 import { TestLiveShareHost } from "@microsoft/live-share";
 import { IN_TEAMS } from "../constants";
@@ -38,30 +40,57 @@ const SidePanelContent: FC<{
     const navigate = useNavigate();
 
     // Presence hook
-    const { allUsers, localUser, localUserIsEligiblePresenter } =
-        liveShareHooks.usePresence();
+    const { allUsers, localUser } = liveShareHooks.usePresence();
 
     const { sendNotification } = liveShareHooks.useNotifications(allUsers);
 
+    // Permissions hook
+    const {
+        permissions, // roles allowed to perform each action
+        localPermissions, // actions the local user is allowed to perform
+        localUserIsOrganizer, // boolean that is true if the local user can edit permissions
+        setPermissionRoles, // callback method to change the roles allowed to perform an action
+    } = liveShareHooks.usePermissions(localUser, sendNotification);
+
     // Take control map
     const {
-        takeControl, // callback method to take control of playback
+        localUserIsPresenting, // boolean that is true if local user is currently presenting
+        presentingUser, // user who is currently in control of playback
+        controlRequests, // pending requests to take control
+        requestControl, // callback method to ask the presenter for control
+        acceptControlRequest, // callback method for the presenter to hand over control
+        denyControlRequest, // callback method for the presenter to turn down a request
     } = liveShareHooks.useTakeControl(
         localUser,
-        localUserIsEligiblePresenter,
+        localPermissions.takeControl,
+        permissions,
         allUsers,
         sendNotification
     );
 
+    // Participants, presenter first
+    const rosterEntries = liveShareHooks.useRoster(
+        allUsers,
+        localUser?.userId,
+        presentingUser?.userId
+    );
+
     // Playlist map
     const {
         playlistStarted, // boolean that is true once playlistMap listener is registered
         selectedMediaItem, // selected media item object, or undefined if unknown
         mediaItems,
         addMediaItem,
+        addCustomMediaItem,
         removeMediaItem,
+        moveMediaItem,
+        importPlaylist,
         selectMediaId,
-    } = liveShareHooks.usePlaylist(sendNotification);
+        repeat,
+        setRepeat,
+        shuffle,
+        setShuffle,
+    } = liveShareHooks.usePlaylist(localPermissions, sendNotification);
 
     useEffect(() => {
         if (context && playlistStarted && IN_TEAMS) {
@@ -78,8 +107,8 @@ const SidePanelContent: FC<{
 
     const selectMedia = useCallback(
         (mediaItem: MediaItem) => {
-            // Take control
-            takeControl();
+            // Take control, or ask the presenter for it
+            requestControl();
             // Set the selected media ID in the playlist map
             selectMediaId(mediaItem.id);
             if (IN_TEAMS) {
@@ -96,19 +125,39 @@ const SidePanelContent: FC<{
                 // window.open(`${window.location.origin}/`);
             }
         },
-        [sharingActive, selectMediaId, takeControl]
+        [sharingActive, selectMediaId, requestControl]
     );
 
     return (
         <ListWrapper>
+            {controlRequests.length > 0 && (
+                <ControlRequestList
+                    controlRequests={controlRequests}
+                    canRespond={localUserIsPresenting}
+                    acceptControlRequest={acceptControlRequest}
+                    denyControlRequest={denyControlRequest}
+                />
+            )}
             <TabbedList
                 mediaItems={mediaItems}
-                browseItems={searchList}
+                mediaCatalog={mediaCatalog}
                 sharingActive={sharingActive}
                 nowPlayingId={selectedMediaItem?.id}
                 addMediaItem={addMediaItem}
+                addCustomMediaItem={addCustomMediaItem}
                 removeMediaItem={removeMediaItem}
+                moveMediaItem={moveMediaItem}
+                importPlaylist={importPlaylist}
                 selectMedia={selectMedia}
+                repeat={repeat}
+                setRepeat={setRepeat}
+                shuffle={shuffle}
+                setShuffle={setShuffle}
+                localPermissions={localPermissions}
+                permissions={permissions}
+                localUserIsOrganizer={localUserIsOrganizer}
+                setPermissionRoles={setPermissionRoles}
+                rosterEntries={rosterEntries}
             />
         </ListWrapper>
     );
@@ -66,10 +66,39 @@ export const getProgressBarStyles = makeStyles({
         },
     },
     pageEl: {
+        position: "relative",
         backgroundColor: "transparent",
         color: "white",
         ...shorthands.padding(".75rem"),
     },
+    // Inset by the padding and half the thumb so markers line up with the rail
+    markers: {
+        position: "absolute",
+        top: "0.25rem",
+        left: "1.25rem",
+        right: "1.25rem",
+        height: "0.75rem",
+    },
+    marker: {
+        position: "absolute",
+        top: "0px",
+        width: "4px",
+        height: "100%",
+        marginLeft: "-2px",
+        cursor: "pointer",
+        ...shorthands.padding("0px"),
+        ...shorthands.border("none"),
+        ...shorthands.borderRadius("2px"),
+        ":disabled": {
+            cursor: "default",
+        },
+    },
+    markerChapter: {
+        backgroundColor: "rgba(255,255,255,0.8)",
+    },
+    markerBookmark: {
+        backgroundColor: tokens.colorPaletteYellowBackground3,
+    },
 });
 
 export const getPillStyles = makeStyles({
@@ -116,3 +145,189 @@ export const getLiveNotificationStyles = makeStyles({
         textAlign: "center",
     },
 });
+
+export const getAudioStageStyles = makeStyles({
+    root: {
+        position: "absolute",
+        top: "0",
+        bottom: "0",
+        left: "0",
+        right: "0",
+        ...shorthands.padding("2rem"),
+        color: "white",
+    },
+    artwork: {
+        width: "30%",
+        maxWidth: "320px",
+        aspectRatio: "1",
+        minHeight: "0px",
+        ...shorthands.borderRadius("8px"),
+        boxShadow: tokens.shadow16,
+    },
+    artworkPlaceholder: {
+        backgroundColor: tokens.colorNeutralBackground3Hover,
+    },
+    subtitle: {
+        opacity: 0.7,
+    },
+    waveform: {
+        width: "60%",
+        height: "64px",
+        marginTop: "1rem",
+        "> :not(:last-child)": {
+            marginRight: "2px",
+        },
+    },
+    waveformBar: {
+        flexGrow: 1,
+        minWidth: "2px",
+        cursor: "pointer",
+        backgroundColor: "rgba(255,255,255,0.3)",
+        ...shorthands.borderRadius("1px"),
+    },
+    waveformBarPlayed: {
+        backgroundColor: "white",
+    },
+});
+
+export const getCaptionsOverlayStyles = makeStyles({
+    root: {
+        position: "absolute",
+        zIndex: 2,
+        left: "10%",
+        right: "10%",
+        bottom: "12%",
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        textAlign: "center",
+        pointerEvents: "none",
+    },
+    cue: {
+        whiteSpace: "pre-line",
+        color: "white",
+        backgroundColor: "rgba(0,0,0,0.75)",
+        fontSize: "1.5rem",
+        lineHeight: "1.4",
+        ...shorthands.padding("0.1rem", "0.5rem"),
+        ...shorthands.borderRadius("4px"),
+    },
+});
+
+export const getInkCalloutsStyles = makeStyles({
+    root: {
+        position: "absolute",
+        ...shorthands.overflow("hidden"),
+        pointerEvents: "none",
+    },
+    callout: {
+        position: "absolute",
+        whiteSpace: "nowrap",
+        backgroundColor: "rgba(0,0,0,0.4)",
+    },
+    removable: {
+        pointerEvents: "auto",
+        cursor: "pointer",
+        ":hover": {
+            textDecorationLine: "line-through",
+        },
+    },
+});
+
+export const getSyncHealthOverlayStyles = makeStyles({
+    root: {
+        position: "absolute",
+        zIndex: 3,
+        top: "12px",
+        left: "12px",
+        maxWidth: "40%",
+        color: "white",
+        backgroundColor: "rgba(0,0,0,0.6)",
+        pointerEvents: "none",
+        fontFamily: tokens.fontFamilyMonospace,
+        ...shorthands.padding("0.5rem", "0.75rem"),
+        ...shorthands.borderRadius("4px"),
+    },
+});
+
+export const getControlRequestOverlayStyles = makeStyles({
+    root: {
+        position: "absolute",
+        zIndex: 3,
+        top: "64px",
+        left: "50%",
+        transform: "translateX(-50%)",
+        maxWidth: "360px",
+        color: "white",
+        backgroundColor: "rgba(0,0,0,0.75)",
+        ...shorthands.padding("0.8rem"),
+        ...shorthands.borderRadius("8px"),
+    },
+    hint: {
+        opacity: 0.7,
+    },
+});
+
+export const getRosterOverlayStyles = makeStyles({
+    root: {
+        position: "absolute",
+        zIndex: 3,
+        top: "12px",
+        right: "12px",
+        width: "280px",
+        alignItems: "flex-end",
+        // Only the button and list take clicks, not the space around them
+        pointerEvents: "none",
+    },
+    toggle: {
+        pointerEvents: "auto",
+        color: "white",
+        backgroundColor: "rgba(0,0,0,0.6)",
+    },
+    list: {
+        pointerEvents: "auto",
+        width: "100%",
+        maxHeight: "50vh",
+        overflowY: "auto",
+        color: "white",
+        backgroundColor: "rgba(0,0,0,0.75)",
+        ...shorthands.padding("0.8rem"),
+        ...shorthands.borderRadius("8px"),
+    },
+});
+
+export const getIndependentViewersOverlayStyles = makeStyles({
+    root: {
+        position: "absolute",
+        zIndex: 3,
+        top: "12px",
+        left: "12px",
+        width: "240px",
+        color: "white",
+        backgroundColor: "rgba(0,0,0,0.75)",
+        ...shorthands.padding("0.8rem"),
+        ...shorthands.borderRadius("8px"),
+    },
+    list: {
+        maxHeight: "120px",
+        overflowY: "auto",
+    },
+});
+
+export const getUpNextOverlayStyles = makeStyles({
+    root: {
+        position: "absolute",
+        zIndex: 3,
+        right: "24px",
+        bottom: "96px",
+        color: "white",
+        backgroundColor: "rgba(0,0,0,0.75)",
+        ...shorthands.padding("0.8rem"),
+        ...shorthands.borderRadius("8px"),
+    },
+    thumbnail: {
+        width: "96px",
+        height: "54px",
+        ...shorthands.borderRadius("4px"),
+    },
+});
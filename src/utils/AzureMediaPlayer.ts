@@ -3,39 +3,18 @@
  * Licensed under the MIT License.
  */
 
+import {
+    MediaPlayerAdapter,
+    MediaPlayerKind,
+    PlayerEvent,
+} from "./MediaPlayerAdapter";
+
 const BlockDetectionState = {
     unknown: "unknown",
     detecting: "detecting",
     unblocked: "unblocked",
 };
 
-const PlayerEvent = {
-    playing: "playing",
-    play: "play",
-    pause: "pause",
-    rateChange: "ratechange",
-    timeUpdate: "timeupdate",
-    ended: "ended",
-    loadedMetadata: "loadedmetadata",
-    loadedData: "loadeddata",
-    stalled: "stalled",
-    blocked: "blocked",
-    volumeChange: "volumechange",
-    durationChange: "durationchange",
-    ready: "ready",
-    seeked: "seeked",
-    seeking: "seeking",
-    waiting: "waiting",
-    canPlayThrough: "canplaythrough",
-    canPlay: "canplay",
-    emptied: "emptied",
-    error: "error",
-    abort: "abort",
-    suspend: "suspend",
-    progress: "progress",
-    loadStart: "loadstart",
-};
-
 declare global {
     interface Window {
         amp: any; // turn off type checking
@@ -72,7 +51,11 @@ interface TrackState {
  * @param {[{src: string}]} src array of media tracks (e.g., [{src: "YOUR_VIDEO_LINK"}]).
  * @param {any} options Optional. AMP player options.
  */
-export class AzureMediaPlayer extends EventTarget {
+export class AzureMediaPlayer
+    extends EventTarget
+    implements MediaPlayerAdapter
+{
+    readonly kind: MediaPlayerKind = "amp";
     _videoElementId: string;
     _player: any;
     _options;
@@ -88,6 +71,9 @@ export class AzureMediaPlayer extends EventTarget {
     // we mute and try again
     _autoplayPolicyChecked = false;
 
+    // Set once the player has been disposed
+    _disposed = false;
+
     constructor(videoElementId: string, src: string, options = {}) {
         super();
         this._videoElementId = videoElementId;
@@ -267,6 +253,7 @@ export class AzureMediaPlayer extends EventTarget {
 
     async _setupPlayer(): Promise<void> {
         await loadAzureMediaPlayerScript();
+        if (this._disposed) return;
         const videoElement = document.getElementById(this._videoElementId);
         function onReady(this: AzureMediaPlayer) {
             this._player.disablePictureInPicture = true;
@@ -287,6 +274,13 @@ export class AzureMediaPlayer extends EventTarget {
         );
     }
 
+    dispose(): void {
+        this._disposed = true;
+        this._stopPositionTracker();
+        this._player?.dispose();
+        this._player = undefined;
+    }
+
     //---------------------------------------------------------------------------------------------
     // Position Tracking
     //---------------------------------------------------------------------------------------------
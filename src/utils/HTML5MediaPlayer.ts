@@ -0,0 +1,228 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import {
+    MediaPlayerAdapter,
+    MediaPlayerKind,
+    PlayerEvent,
+} from "./MediaPlayerAdapter";
+
+/**
+ * Class for wrapping a native HTML5 <video> or <audio> element as a `MediaPlayerAdapter`.
+ * Used for plain media files (e.g., MP4, WebM, MP3) that do not need Azure Media Player.
+ *
+ * @remarks
+ * The element already follows the HTML5 media interface, so this wrapper mostly forwards
+ * properties and events. It also dispatches a `ready` event like `AzureMediaPlayer` does,
+ * so the meeting stage can treat every adapter the same way.
+ *
+ * @param {string} mediaElementId element ID for HTML <video> or <audio> element.
+ * @param {string} src initial media source URL.
+ * @param {MediaPlayerKind} kind Optional. Kind of element being wrapped. Defaults to "html5-video".
+ */
+export class HTML5MediaPlayer
+    extends EventTarget
+    implements MediaPlayerAdapter
+{
+    readonly kind: MediaPlayerKind;
+    _mediaElementId: string;
+    _element: HTMLMediaElement | undefined;
+    _src: string;
+
+    // If browser blocks initial play event due to autoplay policy
+    // we mute and try again
+    _autoplayPolicyChecked = false;
+
+    // Set once the player has been disposed
+    _disposed = false;
+
+    constructor(
+        mediaElementId: string,
+        src: string,
+        kind: MediaPlayerKind = "html5-video"
+    ) {
+        super();
+        this._mediaElementId = mediaElementId;
+        this._src = src;
+        this.kind = kind;
+        this._onElementEvent = this._onElementEvent.bind(this);
+
+        this._setupPlayer();
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Player Source
+    //---------------------------------------------------------------------------------------------
+
+    get currentSrc(): string {
+        return this._src;
+    }
+    get src(): string {
+        return this._src;
+    }
+    /**
+     * @param {src} value
+     */
+    set src(value: string) {
+        this._src = value;
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Ready state
+    //---------------------------------------------------------------------------------------------
+
+    get readyState(): number {
+        return this._element?.readyState ?? 0;
+    }
+
+    get seeking(): boolean {
+        return this._element?.seeking ?? false;
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Playback state
+    //---------------------------------------------------------------------------------------------
+
+    get currentTime(): number {
+        return this._element?.currentTime ?? 0;
+    }
+
+    /**
+     * @param {number} value timestamp in seconds
+     */
+    set currentTime(value: number) {
+        if (!this._element) return;
+        this._element.currentTime = value;
+    }
+
+    get duration(): number {
+        return this._element?.duration ?? 0;
+    }
+
+    get paused(): boolean {
+        return this._element?.paused ?? true;
+    }
+
+    get playbackRate(): number {
+        return this._element?.playbackRate ?? 1;
+    }
+
+    /**
+     * @param {number} value (e.g., 1.0)
+     */
+    set playbackRate(value: number) {
+        if (!this._element) return;
+        this._element.playbackRate = value;
+    }
+
+    get ended(): boolean {
+        return this._element?.ended ?? false;
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Player Controls
+    //---------------------------------------------------------------------------------------------
+
+    get muted(): boolean {
+        return this._element?.muted ?? false;
+    }
+
+    set muted(value: boolean) {
+        if (!this._element) return;
+        this._element.muted = value;
+    }
+
+    get volume(): number {
+        return this._element?.volume ?? 1;
+    }
+
+    /**
+     * @param {number} value volume between 0 and 1
+     */
+    set volume(value: number) {
+        if (!this._element) return;
+        this._element.volume = value;
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Transport Controls
+    //---------------------------------------------------------------------------------------------
+
+    load(): void {
+        if (!this._element) return;
+        this._element.src = this._src;
+        this._element.load();
+    }
+
+    async play(): Promise<void> {
+        if (!this._element) return;
+        try {
+            await this._element.play();
+        } catch (error) {
+            if (this._autoplayPolicyChecked) throw error;
+            this._autoplayPolicyChecked = true;
+            this.muted = true;
+            await this._element.play();
+        }
+        this._autoplayPolicyChecked = true;
+    }
+
+    pause(): void {
+        this._element?.pause();
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Element Variables
+    //---------------------------------------------------------------------------------------------
+
+    get resolution(): string | undefined {
+        if (!(this._element instanceof HTMLVideoElement)) return undefined;
+        return `${this._element.videoWidth}x${this._element.videoHeight}`;
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Player Setup
+    //---------------------------------------------------------------------------------------------
+
+    async _setupPlayer(): Promise<void> {
+        // Wait a tick so listeners can be registered before ready is dispatched
+        await Promise.resolve();
+        if (this._disposed) return;
+        const element = document.getElementById(this._mediaElementId);
+        if (!(element instanceof HTMLMediaElement)) {
+            console.error(
+                `HTML5MediaPlayer: no media element found with id "${this._mediaElementId}"`
+            );
+            return;
+        }
+        this._element = element;
+        Object.values(PlayerEvent).forEach((value) => {
+            element.addEventListener(value, this._onElementEvent);
+        });
+        this.load();
+        this.dispatchEvent(new Event(PlayerEvent.ready));
+    }
+
+    dispose(): void {
+        this._disposed = true;
+        const element = this._element;
+        if (!element) return;
+        this._element = undefined;
+        Object.values(PlayerEvent).forEach((value) => {
+            element.removeEventListener(value, this._onElementEvent);
+        });
+        element.pause();
+        element.removeAttribute("src");
+        element.load();
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Player Events
+    //---------------------------------------------------------------------------------------------
+
+    _onElementEvent(event: Event): void {
+        this.dispatchEvent(new Event(event.type));
+    }
+}
@@ -0,0 +1,139 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import type Hls from "hls.js";
+import type { MediaPlayerClass } from "dashjs";
+import { HTML5MediaPlayer } from "./HTML5MediaPlayer";
+import { PlayerEvent } from "./MediaPlayerAdapter";
+
+export type StreamingFormat = "hls" | "dash";
+
+/**
+ * Get the adaptive streaming format of a manifest URL from its extension, or undefined if
+ * the URL is not an HLS (.m3u8) or DASH (.mpd) manifest.
+ */
+export function getStreamingFormat(src: string): StreamingFormat | undefined {
+    let pathname: string;
+    try {
+        pathname = new URL(src, window.location.href).pathname;
+    } catch {
+        pathname = src;
+    }
+    pathname = pathname.toLowerCase();
+    if (pathname.endsWith(".m3u8")) return "hls";
+    if (pathname.endsWith(".mpd")) return "dash";
+    return undefined;
+}
+
+/**
+ * Class for playing HLS and DASH manifests through Media Source Extensions in a native
+ * HTML5 <video> element, using hls.js and dash.js respectively.
+ *
+ * @remarks
+ * Exposes the same HTML5-like surface as `HTML5MediaPlayer`, so `MediaSynchronizer` can drive
+ * it. The streaming engines are only downloaded the first time a manifest of that format loads.
+ * Browsers that play HLS natively (e.g., Safari) use the element directly.
+ *
+ * @param {string} videoElementId element ID for HTML <video> element.
+ * @param {string} src initial manifest URL.
+ */
+export class MSEMediaPlayer extends HTML5MediaPlayer {
+    _hls: Hls | undefined;
+    _dash: MediaPlayerClass | undefined;
+    // Incremented on each load so that stale async engine loads are ignored
+    _loadCount = 0;
+
+    constructor(videoElementId: string, src: string) {
+        super(videoElementId, src, "mse");
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Transport Controls
+    //---------------------------------------------------------------------------------------------
+
+    load(): void {
+        const element = this._element;
+        if (!element) return;
+        this._destroyEngine();
+        const loadCount = ++this._loadCount;
+        this._attachEngine(element, loadCount).catch((error) => {
+            console.error(error);
+            this.dispatchEvent(new Event(PlayerEvent.error));
+        });
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Streaming Variables
+    //---------------------------------------------------------------------------------------------
+
+    get currentPlaybackBitrate(): number | undefined {
+        if (this._hls) {
+            return this._hls.levels[this._hls.currentLevel]?.bitrate;
+        }
+        if (this._dash) {
+            const quality = this._dash.getQualityFor("video");
+            return this._dash.getBitrateInfoListFor("video")[quality]?.bitrate;
+        }
+        return undefined;
+    }
+
+    get currentHeuristicProfile(): string | undefined {
+        if (this._hls) return "hls.js";
+        if (this._dash) return "dash.js";
+        return undefined;
+    }
+
+    //---------------------------------------------------------------------------------------------
+    // Player Setup
+    //---------------------------------------------------------------------------------------------
+
+    async _attachEngine(
+        element: HTMLMediaElement,
+        loadCount: number
+    ): Promise<void> {
+        const format = getStreamingFormat(this._src);
+        if (format === "hls") {
+            const { default: HlsClass } = await import("hls.js");
+            if (loadCount !== this._loadCount) return;
+            if (!HlsClass.isSupported()) {
+                if (!element.canPlayType("application/vnd.apple.mpegurl")) {
+                    throw new Error(
+                        "MSEMediaPlayer: HLS is not supported in this browser"
+                    );
+                }
+                element.src = this._src;
+                element.load();
+                return;
+            }
+            const hls = new HlsClass();
+            hls.loadSource(this._src);
+            hls.attachMedia(element);
+            this._hls = hls;
+        } else if (format === "dash") {
+            const { MediaPlayer } = await import("dashjs");
+            if (loadCount !== this._loadCount) return;
+            const dash = MediaPlayer().create();
+            dash.initialize(element, this._src, false);
+            this._dash = dash;
+        } else {
+            // Not a manifest, so let the element play it directly
+            element.src = this._src;
+            element.load();
+        }
+    }
+
+    _destroyEngine(): void {
+        this._hls?.destroy();
+        this._hls = undefined;
+        this._dash?.reset();
+        this._dash = undefined;
+    }
+
+    dispose(): void {
+        this._loadCount++;
+        this._destroyEngine();
+        super.dispose();
+    }
+}
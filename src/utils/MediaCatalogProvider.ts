@@ -0,0 +1,92 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { IMediaChapter, ISubtitleTrack, MediaItem } from "./media-list";
+
+/**
+ * One page of media catalog search results.
+ */
+export interface IMediaCatalogPage {
+    items: MediaItem[];
+    // Zero-based index of this page
+    page: number;
+    pageSize: number;
+    // Total number of matching items, if the catalog knows it
+    totalCount?: number;
+    hasMore: boolean;
+}
+
+/**
+ * Source of the media items users can browse and add to the playlist.
+ *
+ * @remarks
+ * Every client resolves playlist items through the same provider, so IDs must be stable
+ * across clients and sessions.
+ */
+export interface MediaCatalogProvider {
+    /**
+     * Search the catalog. An empty query returns every item.
+     *
+     * @param query text to match against item titles and metadata.
+     * @param page zero-based index of the page to return.
+     */
+    search(query: string, page: number): Promise<IMediaCatalogPage>;
+    /**
+     * Get a catalog item by ID, or undefined if there is no such item.
+     */
+    getById(id: string): Promise<MediaItem | undefined>;
+}
+
+/**
+ * Validate an item received from an external catalog, filling in optional fields.
+ * Returns undefined if the value is not a usable media item.
+ */
+export function toMediaItem(value: unknown): MediaItem | undefined {
+    if (!value || typeof value !== "object") return undefined;
+    const item = value as Partial<MediaItem>;
+    if (
+        typeof item.id !== "string" ||
+        typeof item.title !== "string" ||
+        typeof item.src !== "string"
+    ) {
+        return undefined;
+    }
+    return {
+        id: item.id,
+        title: item.title,
+        src: item.src,
+        thumbnailImage:
+            typeof item.thumbnailImage === "string" ? item.thumbnailImage : "",
+        type: item.type === "audio" ? "audio" : "video",
+        artist: typeof item.artist === "string" ? item.artist : undefined,
+        album: typeof item.album === "string" ? item.album : undefined,
+        duration: typeof item.duration === "number" ? item.duration : undefined,
+        chapters: Array.isArray(item.chapters)
+            ? item.chapters.filter(isMediaChapter)
+            : undefined,
+        chaptersSrc:
+            typeof item.chaptersSrc === "string" ? item.chaptersSrc : undefined,
+        subtitles: Array.isArray(item.subtitles)
+            ? item.subtitles.filter(isSubtitleTrack)
+            : undefined,
+    };
+}
+
+function isSubtitleTrack(value: unknown): value is ISubtitleTrack {
+    const track = value as Partial<ISubtitleTrack> | undefined;
+    return (
+        typeof track?.language === "string" &&
+        typeof track?.label === "string" &&
+        typeof track?.src === "string"
+    );
+}
+
+function isMediaChapter(value: unknown): value is IMediaChapter {
+    const chapter = value as Partial<IMediaChapter> | undefined;
+    return (
+        typeof chapter?.startTime === "number" &&
+        typeof chapter?.title === "string"
+    );
+}
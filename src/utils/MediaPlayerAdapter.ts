@@ -0,0 +1,58 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { IMediaPlayer } from "@microsoft/live-share-media";
+
+export const PlayerEvent = {
+    playing: "playing",
+    play: "play",
+    pause: "pause",
+    rateChange: "ratechange",
+    timeUpdate: "timeupdate",
+    ended: "ended",
+    loadedMetadata: "loadedmetadata",
+    loadedData: "loadeddata",
+    stalled: "stalled",
+    blocked: "blocked",
+    volumeChange: "volumechange",
+    durationChange: "durationchange",
+    ready: "ready",
+    seeked: "seeked",
+    seeking: "seeking",
+    waiting: "waiting",
+    canPlayThrough: "canplaythrough",
+    canPlay: "canplay",
+    emptied: "emptied",
+    error: "error",
+    abort: "abort",
+    suspend: "suspend",
+    progress: "progress",
+    loadStart: "loadstart",
+};
+
+/**
+ * The kinds of media player adapters the app knows how to create.
+ */
+export type MediaPlayerKind = "amp" | "mse" | "html5-video" | "html5-audio";
+
+/**
+ * Common interface for the media players used on the meeting stage.
+ *
+ * @remarks
+ * Adapters follow the HTML5 media element interface so that `MediaSynchronizer` can
+ * drive them, and dispatch a `ready` event once the underlying player can be used.
+ * Player specific statistics (e.g., bitrate) are optional and may be undefined.
+ */
+export interface MediaPlayerAdapter extends IMediaPlayer {
+    readonly kind: MediaPlayerKind;
+    readonly readyState: number;
+    readonly currentPlaybackBitrate?: number;
+    readonly currentHeuristicProfile?: string;
+    readonly resolution?: string;
+    /**
+     * Stops the player and releases any listeners, timers or resources it holds.
+     */
+    dispose(): void;
+}
@@ -0,0 +1,79 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { MediaItem } from "./media-list";
+import {
+    IMediaCatalogPage,
+    MediaCatalogProvider,
+    toMediaItem,
+} from "./MediaCatalogProvider";
+
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Catalog provider backed by a REST endpoint that searches and pages on the server.
+ *
+ * @remarks
+ * The endpoint is expected to support:
+ * - `GET {baseUrl}?q={query}&page={page}&pageSize={pageSize}`, returning
+ *   `{ items: MediaItem[], totalCount?: number, hasMore?: boolean }`.
+ * - `GET {baseUrl}/{id}`, returning a `MediaItem`, or 404 if there is no such item.
+ */
+export class RestMediaCatalogProvider implements MediaCatalogProvider {
+    constructor(
+        readonly baseUrl: string,
+        readonly pageSize = DEFAULT_PAGE_SIZE
+    ) {}
+
+    async search(query: string, page: number): Promise<IMediaCatalogPage> {
+        const url = new URL(this.baseUrl, window.location.href);
+        url.searchParams.set("q", query);
+        url.searchParams.set("page", `${page}`);
+        url.searchParams.set("pageSize", `${this.pageSize}`);
+        const json = await this._fetchJson(url);
+        const values: unknown[] = Array.isArray(json?.items) ? json.items : [];
+        const items = values
+            .map(toMediaItem)
+            .filter((item): item is MediaItem => !!item);
+        const totalCount =
+            typeof json?.totalCount === "number" ? json.totalCount : undefined;
+        return {
+            items,
+            page,
+            pageSize: this.pageSize,
+            totalCount,
+            hasMore:
+                typeof json?.hasMore === "boolean"
+                    ? json.hasMore
+                    : totalCount !== undefined
+                    ? (page + 1) * this.pageSize < totalCount
+                    : items.length === this.pageSize,
+        };
+    }
+
+    async getById(id: string): Promise<MediaItem | undefined> {
+        const url = new URL(
+            `${this.baseUrl.replace(/\/$/, "")}/${encodeURIComponent(id)}`,
+            window.location.href
+        );
+        const json = await this._fetchJson(url, true);
+        return toMediaItem(json);
+    }
+
+    private async _fetchJson(url: URL, allowNotFound = false) {
+        const response = await fetch(url.href, {
+            headers: { Accept: "application/json" },
+        });
+        if (allowNotFound && response.status === 404) {
+            return undefined;
+        }
+        if (!response.ok) {
+            throw new Error(
+                `RestMediaCatalogProvider: request failed with status ${response.status}`
+            );
+        }
+        return response.json();
+    }
+}
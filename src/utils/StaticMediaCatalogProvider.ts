@@ -0,0 +1,102 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { MediaItem } from "./media-list";
+import {
+    IMediaCatalogPage,
+    MediaCatalogProvider,
+    toMediaItem,
+} from "./MediaCatalogProvider";
+
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Catalog provider that searches an in-memory list of media items.
+ */
+export class StaticMediaCatalogProvider implements MediaCatalogProvider {
+    constructor(
+        private readonly _items: MediaItem[],
+        readonly pageSize = DEFAULT_PAGE_SIZE
+    ) {}
+
+    async search(query: string, page: number): Promise<IMediaCatalogPage> {
+        const items = await this.getItems();
+        const matches = filterMediaItems(items, query);
+        const start = page * this.pageSize;
+        return {
+            items: matches.slice(start, start + this.pageSize),
+            page,
+            pageSize: this.pageSize,
+            totalCount: matches.length,
+            hasMore: start + this.pageSize < matches.length,
+        };
+    }
+
+    async getById(id: string): Promise<MediaItem | undefined> {
+        const items = await this.getItems();
+        return items.find((item) => item.id === id);
+    }
+
+    protected async getItems(): Promise<MediaItem[]> {
+        return this._items;
+    }
+}
+
+/**
+ * Catalog provider that loads a JSON file containing an array of media items (or an
+ * object with an `items` array) once, and searches it in memory.
+ */
+export class JsonMediaCatalogProvider extends StaticMediaCatalogProvider {
+    private _itemsPromise: Promise<MediaItem[]> | undefined;
+
+    constructor(readonly url: string, pageSize = DEFAULT_PAGE_SIZE) {
+        super([], pageSize);
+    }
+
+    protected getItems(): Promise<MediaItem[]> {
+        if (!this._itemsPromise) {
+            this._itemsPromise = this._loadItems().catch((error) => {
+                // Allow the next search to retry
+                this._itemsPromise = undefined;
+                throw error;
+            });
+        }
+        return this._itemsPromise;
+    }
+
+    private async _loadItems(): Promise<MediaItem[]> {
+        const response = await fetch(this.url);
+        if (!response.ok) {
+            throw new Error(
+                `JsonMediaCatalogProvider: request failed with status ${response.status}`
+            );
+        }
+        const json = await response.json();
+        const values: unknown[] = Array.isArray(json) ? json : json?.items;
+        if (!Array.isArray(values)) {
+            throw new Error(
+                "JsonMediaCatalogProvider: expected an array of media items"
+            );
+        }
+        return values
+            .map(toMediaItem)
+            .filter((item): item is MediaItem => !!item);
+    }
+}
+
+function filterMediaItems(items: MediaItem[], query: string): MediaItem[] {
+    const terms = query
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((term) => !!term);
+    if (terms.length === 0) return items;
+    return items.filter((item) => {
+        const text = [item.title, item.artist, item.album]
+            .filter((value) => !!value)
+            .join(" ")
+            .toLowerCase();
+        return terms.every((term) => text.includes(term));
+    });
+}
@@ -19,3 +19,14 @@ export const formatTimeValue = (timeValue: number) => {
     }
     return `${minutes}:${secondsFormatted}`;
 };
+
+export const formatSyncOffset = (offset: number | null | undefined) => {
+    if (offset === null || offset === undefined) {
+        return "n/a";
+    }
+    const seconds = `${Math.abs(offset).toFixed(2)}s`;
+    if (Math.abs(offset) < 0.005) {
+        return "in sync";
+    }
+    return offset > 0 ? `${seconds} ahead` : `${seconds} behind`;
+};
@@ -0,0 +1,123 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { IBrush, IPointerPoint } from "@microsoft/live-share-canvas";
+
+// Bump when the JSON ink format changes in a way older readers can't handle
+export const INK_FILE_VERSION = 1;
+
+/**
+ * A stroke in an ink file, with the media item and time it was drawn at.
+ */
+export interface IInkFileStroke {
+    id: string;
+    mediaId: string;
+    // Media time in seconds the stroke was drawn at
+    mediaTime: number;
+    // Time in milliseconds the stroke was drawn at, for replaying strokes in order
+    timeStamp: number;
+    brush: IBrush;
+    points: IPointerPoint[];
+}
+
+/**
+ * A text callout in an ink file, with the media item and time it was placed at.
+ */
+export interface IInkFileCallout {
+    id: string;
+    mediaId: string;
+    // Media time in seconds the callout was placed at
+    mediaTime: number;
+    text: string;
+    // Position of the top left corner in ink coordinates
+    x: number;
+    y: number;
+    // CSS color
+    color: string;
+}
+
+/**
+ * JSON ink file. Strokes are listed in the order they were drawn.
+ */
+export interface IInkFile {
+    version: number;
+    exportedAt: string;
+    strokes: IInkFileStroke[];
+    // Optional, so files saved before callouts were added still load
+    callouts?: IInkFileCallout[];
+}
+
+/**
+ * Create an ink file, sorting strokes by the time they were drawn at.
+ */
+export function createInkFile(
+    strokes: IInkFileStroke[],
+    callouts: IInkFileCallout[] = []
+): IInkFile {
+    return {
+        version: INK_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        strokes: [...strokes].sort((a, b) => a.timeStamp - b.timeStamp),
+        callouts,
+    };
+}
+
+/**
+ * Write an ink file as JSON.
+ */
+export function serializeInkFile(file: IInkFile): string {
+    return JSON.stringify(file);
+}
+
+/**
+ * Read a JSON ink file, skipping strokes and callouts that are missing required fields.
+ *
+ * @throws if the text isn't an ink file, or is a newer version.
+ */
+export function parseInkFile(text: string): IInkFile {
+    const file: Partial<IInkFile> = JSON.parse(text);
+    if (typeof file.version !== "number" || !Array.isArray(file.strokes)) {
+        throw new Error("parseInkFile: expected a version and strokes array");
+    }
+    if (file.version > INK_FILE_VERSION) {
+        throw new Error(
+            `parseInkFile: unsupported ink version ${file.version}`
+        );
+    }
+    return createInkFile(
+        file.strokes.filter(isInkFileStroke),
+        Array.isArray(file.callouts)
+            ? file.callouts.filter(isInkFileCallout)
+            : []
+    );
+}
+
+function isInkFileStroke(value: unknown): value is IInkFileStroke {
+    const stroke = value as Partial<IInkFileStroke> | undefined;
+    return (
+        !!stroke &&
+        typeof stroke.id === "string" &&
+        typeof stroke.mediaId === "string" &&
+        typeof stroke.mediaTime === "number" &&
+        typeof stroke.timeStamp === "number" &&
+        typeof stroke.brush === "object" &&
+        Array.isArray(stroke.points) &&
+        stroke.points.length > 0
+    );
+}
+
+function isInkFileCallout(value: unknown): value is IInkFileCallout {
+    const callout = value as Partial<IInkFileCallout> | undefined;
+    return (
+        !!callout &&
+        typeof callout.id === "string" &&
+        typeof callout.mediaId === "string" &&
+        typeof callout.mediaTime === "number" &&
+        typeof callout.text === "string" &&
+        typeof callout.x === "number" &&
+        typeof callout.y === "number" &&
+        typeof callout.color === "string"
+    );
+}
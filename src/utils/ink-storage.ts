@@ -0,0 +1,72 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { IInkFile, parseInkFile, serializeInkFile } from "./ink-file";
+import { downloadTextFile } from "./playlist-file";
+
+/**
+ * Somewhere ink can be saved to when the meeting ends, and loaded from in a later meeting.
+ */
+export interface InkStorage {
+    save(file: IInkFile): Promise<void>;
+    /**
+     * @returns the saved ink, or undefined if there is none or the user cancelled.
+     */
+    load(): Promise<IInkFile | undefined>;
+}
+
+/**
+ * Keeps the last saved ink for as long as the page is open, such as across meeting
+ * containers being disposed and created again.
+ */
+export class MemoryInkStorage implements InkStorage {
+    private _file?: IInkFile;
+
+    async save(file: IInkFile) {
+        this._file = file;
+    }
+
+    async load() {
+        return this._file;
+    }
+}
+
+/**
+ * Saves ink by downloading a JSON file, and loads it by asking the user to pick one.
+ *
+ * @remarks
+ * Both must be called from a user action, such as a click, for the browser to allow them.
+ */
+export class LocalFileInkStorage implements InkStorage {
+    async save(file: IInkFile) {
+        const date = new Date().toISOString().slice(0, 10);
+        downloadTextFile(
+            `ink-${date}.json`,
+            serializeInkFile(file),
+            "application/json"
+        );
+    }
+
+    load(): Promise<IInkFile | undefined> {
+        return new Promise((resolve, reject) => {
+            const input = document.createElement("input");
+            input.type = "file";
+            input.accept = ".json,application/json";
+            input.addEventListener("change", () => {
+                const selectedFile = input.files?.[0];
+                if (!selectedFile) {
+                    resolve(undefined);
+                    return;
+                }
+                selectedFile
+                    .text()
+                    .then((text) => resolve(parseInkFile(text)))
+                    .catch(reject);
+            });
+            input.addEventListener("cancel", () => resolve(undefined));
+            input.click();
+        });
+    }
+}
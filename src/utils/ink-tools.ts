@@ -0,0 +1,204 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import {
+    fromCssColor,
+    InkingManager,
+    InkingTool,
+    IPoint,
+    IPointerPoint,
+    Stroke,
+} from "@microsoft/live-share-canvas";
+
+/**
+ * Tools in the inking controls. Line and arrow use the InkingManager's line tool, while
+ * rectangles, ellipses and text are drawn by InkCanvas with the InkingManager inactive.
+ */
+export type InkTool =
+    | "laserPointer"
+    | "pen"
+    | "highlighter"
+    | "eraser"
+    | "line"
+    | "arrow"
+    | "rectangle"
+    | "ellipse"
+    | "text";
+
+export type InkShape = "rectangle" | "ellipse";
+
+export const INK_COLORS = [
+    { name: "Red", value: "#E3182D" },
+    { name: "Yellow", value: "#FFB900" },
+    { name: "Green", value: "#13A10E" },
+    { name: "Blue", value: "#0078D4" },
+    { name: "White", value: "#FFFFFF" },
+    { name: "Black", value: "#000000" },
+];
+
+// Tip sizes are in ink coordinates, so they scale with the video like the strokes do
+export const INK_STROKE_WIDTHS = [
+    { name: "Thin", value: 4 },
+    { name: "Medium", value: 10 },
+    { name: "Thick", value: 20 },
+];
+
+// Height of the video in ink coordinates. Ink is scaled by the video's height over this.
+export const REFERENCE_HEIGHT = 1080;
+
+// Font size of text callouts in ink coordinates
+export const INK_CALLOUT_FONT_SIZE = 40;
+// Set on the callout overlay too, so snapshots draw callouts the way they show on screen
+export const INK_CALLOUT_FONT_FAMILY = '"Segoe UI", sans-serif';
+const INK_CALLOUT_BACKGROUND = "rgba(0,0,0,0.4)";
+
+/**
+ * Text placed over the video. The position of its top left corner is in ink coordinates,
+ * which are relative to the center of the video.
+ */
+export interface IInkText {
+    text: string;
+    x: number;
+    y: number;
+    // CSS color
+    color: string;
+}
+
+// Number of points used to draw an ellipse
+const ELLIPSE_POINT_COUNT = 72;
+// Pointer pressure for generated strokes, the same a mouse reports
+const SHAPE_PRESSURE = 0.5;
+
+const NATIVE_TOOLS: Partial<Record<InkTool, InkingTool>> = {
+    laserPointer: InkingTool.laserPointer,
+    pen: InkingTool.pen,
+    highlighter: InkingTool.highlighter,
+    eraser: InkingTool.eraser,
+    line: InkingTool.line,
+    arrow: InkingTool.line,
+};
+
+export function isInkShape(tool: InkTool): tool is InkShape {
+    return tool === "rectangle" || tool === "ellipse";
+}
+
+/**
+ * Set up the InkingManager for a tool, leaving it inactive for tools InkCanvas handles.
+ */
+export function applyInkTool(inkingManager: InkingManager, tool: InkTool) {
+    const nativeTool = NATIVE_TOOLS[tool];
+    if (nativeTool === undefined) {
+        inkingManager.deactivate();
+        return;
+    }
+    inkingManager.tool = nativeTool;
+    inkingManager.lineBrush = {
+        ...inkingManager.lineBrush,
+        endArrow: tool === "arrow" ? "open" : "none",
+    };
+    inkingManager.activate();
+}
+
+/**
+ * Use a color and stroke width for the pen, line, arrow and shape tools.
+ */
+export function applyInkStyle(
+    inkingManager: InkingManager,
+    color: string,
+    strokeWidth: number
+) {
+    const inkColor = fromCssColor(color);
+    inkingManager.penBrush = {
+        ...inkingManager.penBrush,
+        color: inkColor,
+        tipSize: strokeWidth,
+    };
+    inkingManager.lineBrush = {
+        ...inkingManager.lineBrush,
+        color: inkColor,
+        tipSize: strokeWidth,
+    };
+}
+
+/**
+ * Add a rectangle or ellipse stroke with the pen brush, which LiveCanvas shares like any
+ * other stroke.
+ *
+ * @param start corner the shape was dragged from, in ink coordinates.
+ * @param end corner the shape was dragged to, in ink coordinates.
+ */
+export function addShapeStroke(
+    inkingManager: InkingManager,
+    shape: InkShape,
+    start: IPoint,
+    end: IPoint
+) {
+    inkingManager.addStroke(
+        new Stroke({
+            brush: { ...inkingManager.penBrush },
+            points: getShapePoints(shape, start, end),
+        })
+    );
+}
+
+function getShapePoints(
+    shape: InkShape,
+    start: IPoint,
+    end: IPoint
+): IPointerPoint[] {
+    if (shape === "rectangle") {
+        return [
+            { x: start.x, y: start.y },
+            { x: end.x, y: start.y },
+            { x: end.x, y: end.y },
+            { x: start.x, y: end.y },
+            { x: start.x, y: start.y },
+        ].map((point) => ({ ...point, pressure: SHAPE_PRESSURE }));
+    }
+    const centerX = (start.x + end.x) / 2;
+    const centerY = (start.y + end.y) / 2;
+    const radiusX = Math.abs(end.x - start.x) / 2;
+    const radiusY = Math.abs(end.y - start.y) / 2;
+    const points: IPointerPoint[] = [];
+    for (let i = 0; i <= ELLIPSE_POINT_COUNT; i++) {
+        const angle = (i / ELLIPSE_POINT_COUNT) * 2 * Math.PI;
+        points.push({
+            x: centerX + radiusX * Math.cos(angle),
+            y: centerY + radiusY * Math.sin(angle),
+            pressure: SHAPE_PRESSURE,
+        });
+    }
+    return points;
+}
+
+/**
+ * Draw text callouts into a canvas covering the video, with the same background as the
+ * callout overlay.
+ *
+ * @param scale the canvas height over `REFERENCE_HEIGHT`.
+ */
+export function drawInkText(
+    context: CanvasRenderingContext2D,
+    texts: IInkText[],
+    scale: number
+) {
+    const centerX = context.canvas.width / 2;
+    const centerY = context.canvas.height / 2;
+    const fontSize = INK_CALLOUT_FONT_SIZE * scale;
+    context.save();
+    context.font = `${fontSize}px ${INK_CALLOUT_FONT_FAMILY}`;
+    context.textBaseline = "top";
+    texts.forEach((inkText) => {
+        const left = inkText.x * scale + centerX;
+        const top = inkText.y * scale + centerY;
+        const { width } = context.measureText(inkText.text);
+        context.fillStyle = INK_CALLOUT_BACKGROUND;
+        // Roughly the height of a line of text at the default line height
+        context.fillRect(left, top, width, fontSize * 1.25);
+        context.fillStyle = inkText.color;
+        context.fillText(inkText.text, left, top + fontSize * 0.125);
+    });
+    context.restore();
+}
@@ -0,0 +1,46 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { MEDIA_CATALOG_URL } from "../constants";
+import { searchList } from "./media-list";
+import { MediaCatalogProvider } from "./MediaCatalogProvider";
+import { RestMediaCatalogProvider } from "./RestMediaCatalogProvider";
+import {
+    JsonMediaCatalogProvider,
+    StaticMediaCatalogProvider,
+} from "./StaticMediaCatalogProvider";
+
+/**
+ * Create the catalog provider for a catalog URL: a JSON file if it ends in .json, a REST
+ * endpoint otherwise, or the built-in searchList if there is no URL.
+ */
+export function createMediaCatalogProvider(
+    catalogUrl: string | undefined
+): MediaCatalogProvider {
+    if (!catalogUrl) {
+        return new StaticMediaCatalogProvider(searchList);
+    }
+    const pathname = new URL(catalogUrl, window.location.href).pathname;
+    if (pathname.toLowerCase().endsWith(".json")) {
+        return new JsonMediaCatalogProvider(catalogUrl);
+    }
+    return new RestMediaCatalogProvider(catalogUrl);
+}
+
+/**
+ * Get the catalog URL from the `catalogUrl` query parameter, falling back to
+ * `MEDIA_CATALOG_URL`.
+ */
+export function getMediaCatalogUrl(): string | undefined {
+    const currentUrl = window.location.href;
+    // Check if using HistoryRouter
+    const url = currentUrl.includes("/#/")
+        ? new URL(`${currentUrl.split("/#/").join("/")}`)
+        : new URL(currentUrl);
+    return url.searchParams.get("catalogUrl") || MEDIA_CATALOG_URL;
+}
+
+// Catalog shared by the side panel and playlist
+export const mediaCatalog = createMediaCatalogProvider(getMediaCatalogUrl());
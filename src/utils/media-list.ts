@@ -3,12 +3,38 @@
  * Licensed under the MIT License.
  */
 
+export type MediaItemType = "video" | "audio";
+
+export interface IMediaChapter {
+    // Start time in seconds
+    startTime: number;
+    title: string;
+}
+
+export interface ISubtitleTrack {
+    // BCP 47 language tag, e.g. "en" or "es-MX"
+    language: string;
+    label: string;
+    // URL of a WebVTT or SRT file
+    src: string;
+}
+
 export type MediaItem = {
     id: string;
+    // Thumbnail for videos, album artwork for audio
     thumbnailImage: string;
     title: string;
     src: string;
-    type: string;
+    type: MediaItemType;
+    artist?: string;
+    album?: string;
+    // Duration in seconds, when known before playback
+    duration?: number;
+    // Chapters listed in the item metadata
+    chapters?: IMediaChapter[];
+    // URL of a WebVTT chapters file, used when chapters isn't set
+    chaptersSrc?: string;
+    subtitles?: ISubtitleTrack[];
 };
 
 export const mediaList: MediaItem[] = [
@@ -0,0 +1,64 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { AzureMediaPlayer } from "./AzureMediaPlayer";
+import { HTML5MediaPlayer } from "./HTML5MediaPlayer";
+import { MediaPlayerAdapter, MediaPlayerKind } from "./MediaPlayerAdapter";
+import { MediaItem } from "./media-list";
+import { getStreamingFormat, MSEMediaPlayer } from "./MSEMediaPlayer";
+
+// Element ID of the media element rendered for each player kind
+export const MEDIA_ELEMENT_IDS: Record<MediaPlayerKind, string> = {
+    amp: "video",
+    mse: "mse-video",
+    "html5-video": "html5-video",
+    "html5-audio": "html5-audio",
+};
+
+/**
+ * Returns true if the source is an Azure Media Services streaming manifest, which requires
+ * Azure Media Player to play back.
+ */
+export function isAzureMediaServicesSrc(src: string): boolean {
+    return /\.ism\/manifest/i.test(src);
+}
+
+/**
+ * Get the kind of media player adapter that should be used to play a given media item.
+ */
+export function getMediaPlayerKind(mediaItem: MediaItem): MediaPlayerKind {
+    if (isAzureMediaServicesSrc(mediaItem.src)) {
+        return "amp";
+    }
+    if (getStreamingFormat(mediaItem.src)) {
+        return "mse";
+    }
+    if (mediaItem.type === "audio") {
+        return "html5-audio";
+    }
+    return "html5-video";
+}
+
+/**
+ * Create the media player adapter for a given media item.
+ *
+ * @remarks
+ * The media element matching `MEDIA_ELEMENT_IDS[getMediaPlayerKind(mediaItem)]` must be
+ * rendered before the adapter is created. Listen for the `ready` event before using it.
+ */
+export function createMediaPlayer(mediaItem: MediaItem): MediaPlayerAdapter {
+    const kind = getMediaPlayerKind(mediaItem);
+    const elementId = MEDIA_ELEMENT_IDS[kind];
+    switch (kind) {
+        case "amp":
+            return new AzureMediaPlayer(elementId, mediaItem.src);
+        case "mse":
+            return new MSEMediaPlayer(elementId, mediaItem.src);
+        case "html5-audio":
+        case "html5-video":
+        default:
+            return new HTML5MediaPlayer(elementId, mediaItem.src, kind);
+    }
+}
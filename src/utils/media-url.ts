@@ -0,0 +1,234 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { MediaItem, MediaItemType } from "./media-list";
+import { isAzureMediaServicesSrc } from "./media-player";
+import { getStreamingFormat } from "./MSEMediaPlayer";
+
+// How long to wait for a URL's metadata before adding it without a title or duration
+const METADATA_TIMEOUT_MS = 8000;
+
+const AUDIO_EXTENSIONS = ["mp3", "m4a", "aac", "wav", "ogg", "oga", "flac"];
+const VIDEO_EXTENSIONS = ["mp4", "m4v", "webm", "ogv", "mov", "mkv"];
+
+/**
+ * Parse a URL entered by the user, returning undefined if it is not an http(s) URL.
+ */
+export function parseMediaUrl(value: string): URL | undefined {
+    try {
+        const url = new URL(value.trim());
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+            return undefined;
+        }
+        return url;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Detect the media item type of a URL from its extension or manifest format, or undefined
+ * if the URL does not look like media the app can play.
+ */
+export function getMediaItemTypeFromUrl(url: URL): MediaItemType | undefined {
+    if (isAzureMediaServicesSrc(url.href) || getStreamingFormat(url.href)) {
+        return "video";
+    }
+    const extension = getExtension(url);
+    if (!extension) return undefined;
+    if (AUDIO_EXTENSIONS.includes(extension)) return "audio";
+    if (VIDEO_EXTENSIONS.includes(extension)) return "video";
+    return undefined;
+}
+
+/**
+ * Create a unique ID for a media item that isn't from the media catalog.
+ */
+export function createMediaItemId(): string {
+    return `url-${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`;
+}
+
+/**
+ * Create a media item for a URL, filling in the title and duration when they can be read.
+ *
+ * @remarks
+ * Metadata is best effort: manifests are fetched and parsed for a title and duration, and
+ * media files are loaded into a detached media element for their duration. Servers that
+ * don't allow CORS requests still produce a playable item titled after the file name.
+ *
+ * @param url URL returned by `parseMediaUrl`.
+ * @param type media type returned by `getMediaItemTypeFromUrl`.
+ */
+export async function createMediaItemFromUrl(
+    url: URL,
+    type: MediaItemType
+): Promise<MediaItem> {
+    const mediaItem: MediaItem = {
+        id: createMediaItemId(),
+        thumbnailImage: "",
+        title: getTitleFromUrl(url),
+        src: url.href,
+        type,
+    };
+    try {
+        const metadata =
+            getStreamingFormat(url.href) || isAzureMediaServicesSrc(url.href)
+                ? await withTimeout(
+                      loadManifestMetadata(url),
+                      METADATA_TIMEOUT_MS
+                  )
+                : await loadElementMetadata(url, type, METADATA_TIMEOUT_MS);
+        if (metadata.title) {
+            mediaItem.title = metadata.title;
+        }
+        if (metadata.duration && isFinite(metadata.duration)) {
+            mediaItem.duration = metadata.duration;
+        }
+    } catch (error) {
+        console.warn("createMediaItemFromUrl: unable to load metadata", error);
+    }
+    return mediaItem;
+}
+
+interface IMediaUrlMetadata {
+    title?: string;
+    duration?: number;
+}
+
+function getExtension(url: URL): string | undefined {
+    const fileName = url.pathname.split("/").pop() ?? "";
+    const dotIndex = fileName.lastIndexOf(".");
+    if (dotIndex < 0) return undefined;
+    return fileName.slice(dotIndex + 1).toLowerCase();
+}
+
+function getTitleFromUrl(url: URL): string {
+    const segments = url.pathname.split("/").filter((segment) => !!segment);
+    // AMS manifests end in "<name>.ism/manifest", so use the segment before it
+    const fileName = isAzureMediaServicesSrc(url.href)
+        ? segments[segments.length - 2]
+        : segments[segments.length - 1];
+    if (!fileName) return url.hostname;
+    let title: string;
+    try {
+        title = decodeURIComponent(fileName);
+    } catch {
+        title = fileName;
+    }
+    return title.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ") || url.hostname;
+}
+
+async function loadManifestMetadata(url: URL): Promise<IMediaUrlMetadata> {
+    const response = await fetch(url.href);
+    if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+    }
+    const text = await response.text();
+    if (getStreamingFormat(url.href) === "hls") {
+        return parseHlsMetadata(text);
+    }
+    return parseXmlManifestMetadata(text);
+}
+
+function parseHlsMetadata(text: string): IMediaUrlMetadata {
+    // Only media playlists list segments; master playlists don't have a duration
+    let duration = 0;
+    const segmentPattern = /#EXTINF:([\d.]+)/g;
+    let match = segmentPattern.exec(text);
+    while (match) {
+        duration += parseFloat(match[1]);
+        match = segmentPattern.exec(text);
+    }
+    return {
+        duration: duration > 0 ? duration : undefined,
+    };
+}
+
+function parseXmlManifestMetadata(text: string): IMediaUrlMetadata {
+    const document = new DOMParser().parseFromString(text, "application/xml");
+    // DASH manifests
+    const mpd = document.querySelector("MPD");
+    if (mpd) {
+        const title = document
+            .querySelector("ProgramInformation > Title")
+            ?.textContent?.trim();
+        const duration = mpd.getAttribute("mediaPresentationDuration");
+        return {
+            title: title || undefined,
+            duration: duration ? parseIsoDuration(duration) : undefined,
+        };
+    }
+    // Smooth Streaming manifests, with a duration in 100ns units by default
+    const smooth = document.querySelector("SmoothStreamingMedia");
+    if (smooth) {
+        const duration = Number(smooth.getAttribute("Duration"));
+        const timeScale = Number(smooth.getAttribute("TimeScale")) || 10000000;
+        return {
+            duration: duration > 0 ? duration / timeScale : undefined,
+        };
+    }
+    return {};
+}
+
+// Parse an ISO 8601 duration such as "PT1H2M3.5S" into seconds
+function parseIsoDuration(value: string): number | undefined {
+    const match =
+        /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(
+            value.trim()
+        );
+    if (!match) return undefined;
+    const [, days, hours, minutes, seconds] = match.map((part) =>
+        part ? parseFloat(part) : 0
+    );
+    return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+async function loadElementMetadata(
+    url: URL,
+    type: MediaItemType,
+    timeout: number
+): Promise<IMediaUrlMetadata> {
+    const element = document.createElement(type);
+    element.preload = "metadata";
+    element.muted = true;
+    try {
+        return await withTimeout(
+            new Promise<IMediaUrlMetadata>((resolve, reject) => {
+                element.addEventListener("loadedmetadata", () => {
+                    resolve({ duration: element.duration });
+                });
+                element.addEventListener("error", () => {
+                    reject(new Error("Unable to load media metadata"));
+                });
+                element.src = url.href;
+            }),
+            timeout
+        );
+    } finally {
+        // Stop loading, including when timed out
+        element.removeAttribute("src");
+        element.load();
+    }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            reject(new Error(`Timed out after ${timeout}ms`));
+        }, timeout);
+        promise.then(
+            (value) => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            (error) => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+}
@@ -0,0 +1,280 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { MediaItem } from "./media-list";
+import { toMediaItem } from "./MediaCatalogProvider";
+import {
+    createMediaItemId,
+    getMediaItemTypeFromUrl,
+    parseMediaUrl,
+} from "./media-url";
+
+// Bump when the JSON playlist format changes in a way older readers can't handle
+export const PLAYLIST_FILE_VERSION = 1;
+
+export type PlaylistFileFormat = "m3u" | "json";
+
+/**
+ * JSON playlist file. Items are listed in playlist order.
+ */
+export interface IPlaylistFile {
+    version: number;
+    exportedAt: string;
+    selectedId?: string;
+    items: MediaItem[];
+}
+
+/**
+ * Result of reading a playlist file.
+ */
+export interface IParsedPlaylist {
+    items: MediaItem[];
+    selectedId?: string;
+    // Number of entries that were skipped because they were not valid media items
+    skippedCount: number;
+}
+
+/**
+ * Write playlist items, in order, to an M3U or JSON playlist file.
+ */
+export function exportPlaylist(
+    format: PlaylistFileFormat,
+    items: MediaItem[],
+    selectedId: string | undefined
+): string {
+    if (format === "m3u") {
+        return exportPlaylistM3U(items, selectedId);
+    }
+    const file: IPlaylistFile = {
+        version: PLAYLIST_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        selectedId,
+        items,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read an M3U/M3U8 or JSON playlist file.
+ *
+ * @throws if the file can't be read as either format, or is a newer JSON version.
+ */
+export function parsePlaylistFile(text: string): IParsedPlaylist {
+    const trimmed = text.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+        return parsePlaylistJson(trimmed);
+    }
+    return parsePlaylistM3U(trimmed);
+}
+
+/**
+ * Get the file name and MIME type to use when downloading an exported playlist.
+ */
+export function getPlaylistFileInfo(format: PlaylistFileFormat) {
+    const date = new Date().toISOString().slice(0, 10);
+    return format === "m3u"
+        ? {
+              fileName: `playlist-${date}.m3u8`,
+              mimeType: "audio/x-mpegurl",
+          }
+        : {
+              fileName: `playlist-${date}.json`,
+              mimeType: "application/json",
+          };
+}
+
+/**
+ * Save text to the user's device as a file.
+ */
+export function downloadTextFile(
+    fileName: string,
+    text: string,
+    mimeType: string
+) {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = fileName;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(url);
+}
+
+function exportPlaylistM3U(
+    items: MediaItem[],
+    selectedId: string | undefined
+): string {
+    const lines = ["#EXTM3U"];
+    items.forEach((item) => {
+        // Extended attributes as used by IPTV players, plus our own for round-tripping
+        const attributes: Record<string, string | undefined> = {
+            "tvg-id": item.id,
+            "tvg-logo": item.thumbnailImage || undefined,
+            type: item.type,
+            album: item.album,
+            selected: item.id === selectedId ? "true" : undefined,
+        };
+        const attributeText = Object.entries(attributes)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => ` ${key}="${escapeAttribute(value!)}"`)
+            .join("");
+        const title = item.artist
+            ? `${item.artist} - ${item.title}`
+            : item.title;
+        const duration =
+            item.duration !== undefined ? Math.round(item.duration) : -1;
+        lines.push(
+            `#EXTINF:${duration}${attributeText},${title.replace(
+                /[\r\n]+/g,
+                " "
+            )}`
+        );
+        lines.push(item.src);
+    });
+    return `${lines.join("\n")}\n`;
+}
+
+function parsePlaylistM3U(text: string): IParsedPlaylist {
+    const items: MediaItem[] = [];
+    let selectedId: string | undefined;
+    let skippedCount = 0;
+    let extInf: string | undefined;
+    text.split(/\r?\n/).forEach((rawLine) => {
+        const line = rawLine.trim();
+        if (!line) return;
+        if (line.startsWith("#")) {
+            if (line.startsWith("#EXTINF:")) {
+                extInf = line.slice("#EXTINF:".length);
+            }
+            return;
+        }
+        const info = extInf;
+        extInf = undefined;
+        const url = parseMediaUrl(line);
+        const type = url ? getMediaItemTypeFromUrl(url) : undefined;
+        if (!url || !type) {
+            skippedCount++;
+            return;
+        }
+        const item: MediaItem = {
+            id: createMediaItemId(),
+            thumbnailImage: "",
+            title: url.pathname.split("/").pop() || url.hostname,
+            src: url.href,
+            type,
+        };
+        if (info !== undefined) {
+            applyExtInf(item, info);
+            if (/\bselected="true"/.test(info)) {
+                selectedId = item.id;
+            }
+        }
+        items.push(item);
+    });
+    if (items.length === 0 && skippedCount === 0) {
+        throw new Error("parsePlaylistFile: no playlist entries found");
+    }
+    return { items, selectedId, skippedCount };
+}
+
+// Fill in a media item from an "#EXTINF:<duration> <attributes>,<title>" line
+function applyExtInf(item: MediaItem, info: string) {
+    const commaIndex = findTitleSeparator(info);
+    const header = commaIndex >= 0 ? info.slice(0, commaIndex) : info;
+    const title = commaIndex >= 0 ? info.slice(commaIndex + 1).trim() : "";
+    const duration = parseFloat(header);
+    if (duration > 0) {
+        item.duration = duration;
+    }
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([\w-]+)="([^"]*)"/g;
+    let match = attributePattern.exec(header);
+    while (match) {
+        attributes[match[1]] = unescapeAttribute(match[2]);
+        match = attributePattern.exec(header);
+    }
+    if (attributes["tvg-id"]) {
+        item.id = attributes["tvg-id"];
+    }
+    if (attributes["tvg-logo"]) {
+        item.thumbnailImage = attributes["tvg-logo"];
+    }
+    if (attributes.type === "audio" || attributes.type === "video") {
+        item.type = attributes.type;
+    }
+    if (attributes.album) {
+        item.album = attributes.album;
+    }
+    if (title) {
+        // "Artist - Title" is the common M3U convention
+        const separatorIndex = title.indexOf(" - ");
+        if (separatorIndex > 0) {
+            item.artist = title.slice(0, separatorIndex);
+            item.title = title.slice(separatorIndex + 3);
+        } else {
+            item.title = title;
+        }
+    }
+}
+
+// Index of the comma before the title, skipping commas inside quoted attribute values
+function findTitleSeparator(info: string): number {
+    let inQuotes = false;
+    for (let i = 0; i < info.length; i++) {
+        if (info[i] === '"') {
+            inQuotes = !inQuotes;
+        } else if (info[i] === "," && !inQuotes) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/%/g, "%25").replace(/"/g, "%22");
+}
+
+function unescapeAttribute(value: string): string {
+    return value.replace(/%22/g, '"').replace(/%25/g, "%");
+}
+
+function parsePlaylistJson(text: string): IParsedPlaylist {
+    const json = JSON.parse(text);
+    // Accept a bare array of items as well as the versioned format
+    const file: Partial<IPlaylistFile> = Array.isArray(json)
+        ? { items: json }
+        : json;
+    if (
+        typeof file.version === "number" &&
+        file.version > PLAYLIST_FILE_VERSION
+    ) {
+        throw new Error(
+            `parsePlaylistFile: unsupported playlist version ${file.version}`
+        );
+    }
+    if (!Array.isArray(file.items)) {
+        throw new Error("parsePlaylistFile: expected an items array");
+    }
+    const items: MediaItem[] = [];
+    let skippedCount = 0;
+    file.items.forEach((value) => {
+        const item = toMediaItem(value);
+        if (!item || !parseMediaUrl(item.src)) {
+            skippedCount++;
+            return;
+        }
+        items.push(item);
+    });
+    return {
+        items,
+        selectedId:
+            typeof file.selectedId === "string" &&
+            items.some((item) => item.id === file.selectedId)
+                ? file.selectedId
+                : undefined,
+        skippedCount,
+    };
+}
@@ -0,0 +1,43 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * Get a new random seed for `shuffleWithSeed`.
+ */
+export function createShuffleSeed(): number {
+    return Math.floor(Math.random() * 0x7fffffff);
+}
+
+/**
+ * Shuffle items into an order that is the same on every client given the same seed.
+ *
+ * @remarks
+ * Each item is sorted by a hash of the seed and its ID rather than by a Fisher-Yates pass,
+ * so adding or removing an item does not reshuffle the rest of the list.
+ */
+export function shuffleWithSeed<T extends { id: string }>(
+    items: T[],
+    seed: number
+): T[] {
+    return items
+        .map((item) => ({ item, key: hashString(`${seed}:${item.id}`) }))
+        .sort((a, b) => {
+            if (a.key === b.key) {
+                return a.item.id < b.item.id ? -1 : 1;
+            }
+            return a.key - b.key;
+        })
+        .map(({ item }) => item);
+}
+
+// FNV-1a 32-bit hash
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,239 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { formatTimeValue } from "./format";
+import { drawInkText, IInkText, REFERENCE_HEIGHT } from "./ink-tools";
+
+// Snapshots use the same 16:9 frame as useVisibleVideoSize and the ink canvas
+export const SNAPSHOT_WIDTH = 1920;
+export const SNAPSHOT_HEIGHT = 1080;
+
+// Keeps the stage and side panel windows' lists of snapshots the same
+const CHANNEL_NAME = "media-snapshots";
+
+/**
+ * A captured video frame with the ink that was on it.
+ */
+export interface ISnapshot {
+    id: string;
+    mediaId: string;
+    mediaTitle: string;
+    // Media time in seconds the frame was captured at
+    mediaTime: number;
+    takenAt: number;
+    // PNG image
+    image: Blob;
+}
+
+/**
+ * Thrown when the browser won't let a frame be read, because the media is served from
+ * another origin without CORS headers.
+ */
+export class SnapshotNotAllowedError extends Error {
+    constructor() {
+        super(
+            "captureSnapshot: the frame can't be read because the media doesn't allow CORS"
+        );
+        this.name = "SnapshotNotAllowedError";
+    }
+}
+
+/**
+ * Draw the current frame of a video, with the ink strokes and text callouts on top of it,
+ * into a PNG.
+ *
+ * @remarks
+ * The ink host element covers the 16:9 rectangle from useVisibleVideoSize, which the video
+ * is fitted into, so its ink canvas is stretched over the whole snapshot and the frame is
+ * letterboxed the same way it is on screen. Only the canvases placed directly in the host
+ * hold strokes that have been drawn. Strokes in progress, laser pointers and live cursors
+ * are in child elements of their own and are left out. Callouts are overlay elements
+ * rather than canvases, so they are drawn from `callouts`, which should only hold the
+ * visible ones.
+ *
+ * @throws SnapshotNotAllowedError if the video is cross-origin without CORS, since the
+ * canvas can't be read then.
+ */
+export async function captureSnapshot(
+    video: HTMLVideoElement,
+    inkHost: HTMLElement | null,
+    callouts: IInkText[]
+): Promise<Blob> {
+    const canvas = document.createElement("canvas");
+    canvas.width = SNAPSHOT_WIDTH;
+    canvas.height = SNAPSHOT_HEIGHT;
+    const context = canvas.getContext("2d");
+    if (!context) {
+        throw new Error("captureSnapshot: unable to create a canvas context");
+    }
+    context.fillStyle = "black";
+    context.fillRect(0, 0, SNAPSHOT_WIDTH, SNAPSHOT_HEIGHT);
+    if (video.videoWidth && video.videoHeight) {
+        const scale = Math.min(
+            SNAPSHOT_WIDTH / video.videoWidth,
+            SNAPSHOT_HEIGHT / video.videoHeight
+        );
+        const width = video.videoWidth * scale;
+        const height = video.videoHeight * scale;
+        context.drawImage(
+            video,
+            (SNAPSHOT_WIDTH - width) / 2,
+            (SNAPSHOT_HEIGHT - height) / 2,
+            width,
+            height
+        );
+    }
+    inkHost
+        ?.querySelectorAll<HTMLCanvasElement>(":scope > canvas")
+        .forEach((inkCanvas) => {
+            context.drawImage(inkCanvas, 0, 0, SNAPSHOT_WIDTH, SNAPSHOT_HEIGHT);
+        });
+    drawInkText(context, callouts, SNAPSHOT_HEIGHT / REFERENCE_HEIGHT);
+    return new Promise((resolve, reject) => {
+        try {
+            canvas.toBlob((blob) => {
+                if (blob) {
+                    resolve(blob);
+                } else {
+                    reject(new Error("captureSnapshot: unable to encode PNG"));
+                }
+            }, "image/png");
+        } catch (error) {
+            // Drawing a cross-origin frame taints the canvas, so reading it throws
+            reject(
+                error instanceof DOMException && error.name === "SecurityError"
+                    ? new SnapshotNotAllowedError()
+                    : error
+            );
+        }
+    });
+}
+
+/**
+ * Get the file name to use when downloading a snapshot.
+ */
+export function getSnapshotFileName(snapshot: ISnapshot): string {
+    const title = snapshot.mediaTitle.replace(/[^\w-]+/g, "-") || "snapshot";
+    const time = formatTimeValue(snapshot.mediaTime).replace(/:/g, "-");
+    return `${title}-${time}.png`;
+}
+
+/**
+ * Save a blob to the user's device as a file.
+ */
+export function downloadBlob(fileName: string, blob: Blob) {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = fileName;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    // Revoked once the browser has handled the click and started the download
+    setTimeout(() => URL.revokeObjectURL(url));
+}
+
+type SnapshotMessage =
+    | { type: "added"; snapshot: ISnapshot }
+    | { type: "deleted"; id: string }
+    | { type: "cleared" }
+    // Sent by a window that just opened, so the others reply with what they have
+    | { type: "requested" }
+    | { type: "listed"; snapshots: ISnapshot[] };
+
+// Snapshots taken this session, oldest first. They are only kept in memory, so they are
+// gone once every window of the app is closed.
+let sessionSnapshots: ISnapshot[] = [];
+const listeners = new Set<() => void>();
+let channel: BroadcastChannel | undefined;
+
+/**
+ * Get the snapshots taken this session, oldest first.
+ */
+export function getSnapshots(): ISnapshot[] {
+    return sessionSnapshots;
+}
+
+export function addSnapshot(snapshot: ISnapshot) {
+    postSnapshotMessage({ type: "added", snapshot });
+}
+
+export function deleteSnapshot(id: string) {
+    postSnapshotMessage({ type: "deleted", id });
+}
+
+export function clearSnapshots() {
+    postSnapshotMessage({ type: "cleared" });
+}
+
+/**
+ * Listen for snapshots being added or deleted in any window of the app.
+ *
+ * @returns callback to stop listening.
+ */
+export function subscribeToSnapshots(listener: () => void): () => void {
+    getChannel();
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function getChannel(): BroadcastChannel {
+    if (!channel) {
+        channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.onmessage = (event: MessageEvent<SnapshotMessage>) => {
+            applySnapshotMessage(event.data);
+        };
+        channel.postMessage({ type: "requested" });
+    }
+    return channel;
+}
+
+function postSnapshotMessage(message: SnapshotMessage) {
+    // Channels don't receive their own messages, so it is applied here too
+    applySnapshotMessage(message);
+    getChannel().postMessage(message);
+}
+
+function applySnapshotMessage(message: SnapshotMessage) {
+    switch (message.type) {
+        case "added":
+            setSnapshots([...sessionSnapshots, message.snapshot]);
+            break;
+        case "deleted":
+            setSnapshots(
+                sessionSnapshots.filter(
+                    (snapshot) => snapshot.id !== message.id
+                )
+            );
+            break;
+        case "cleared":
+            setSnapshots([]);
+            break;
+        case "requested":
+            if (sessionSnapshots.length > 0) {
+                getChannel().postMessage({
+                    type: "listed",
+                    snapshots: sessionSnapshots,
+                });
+            }
+            break;
+        case "listed":
+            setSnapshots([...sessionSnapshots, ...message.snapshots]);
+            break;
+    }
+}
+
+function setSnapshots(snapshots: ISnapshot[]) {
+    // Windows can list the same snapshot more than once
+    const snapshotsById = new Map(
+        snapshots.map((snapshot) => [snapshot.id, snapshot])
+    );
+    sessionSnapshots = [...snapshotsById.values()].sort(
+        (a, b) => a.takenAt - b.takenAt
+    );
+    listeners.forEach((listener) => listener());
+}
@@ -0,0 +1,84 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { meeting } from "@microsoft/teams-js";
+import { IN_TEAMS } from "../constants";
+
+export type SpeakingStateListener = (isSpeaking: boolean) => void;
+
+/**
+ * Source of whether anyone in the meeting is currently speaking.
+ */
+export interface SpeakingStateSource {
+    readonly isSpeaking: boolean;
+    /**
+     * Listen for speaking state changes. Returns a function that removes the listener.
+     */
+    subscribe(listener: SpeakingStateListener): () => void;
+}
+
+abstract class SpeakingStateSourceBase implements SpeakingStateSource {
+    private readonly _listeners = new Set<SpeakingStateListener>();
+    private _isSpeaking = false;
+
+    public get isSpeaking(): boolean {
+        return this._isSpeaking;
+    }
+
+    public subscribe(listener: SpeakingStateListener): () => void {
+        this._listeners.add(listener);
+        this.onSubscribe();
+        return () => {
+            this._listeners.delete(listener);
+        };
+    }
+
+    protected onSubscribe() {
+        // Overridden by sources that start listening lazily
+    }
+
+    protected setSpeakingState(isSpeaking: boolean) {
+        if (this._isSpeaking === isSpeaking) return;
+        this._isSpeaking = isSpeaking;
+        this._listeners.forEach((listener) => listener(isSpeaking));
+    }
+}
+
+/**
+ * Speaking state reported by the Teams meeting.
+ *
+ * @remarks
+ * Teams only allows one speaking state handler per frame, so the handler is registered once
+ * and shared by every listener.
+ */
+export class TeamsSpeakingStateSource extends SpeakingStateSourceBase {
+    private _registered = false;
+
+    protected onSubscribe() {
+        if (this._registered) return;
+        this._registered = true;
+        meeting.registerSpeakingStateChangeHandler((speakingState) => {
+            if (speakingState.error) {
+                console.error(speakingState.error);
+                return;
+            }
+            this.setSpeakingState(!!speakingState.isSpeakingDetected);
+        });
+    }
+}
+
+/**
+ * Speaking state that is set by hand, for testing audio ducking outside of Teams.
+ */
+export class SimulatedSpeakingStateSource extends SpeakingStateSourceBase {
+    public setSpeaking(isSpeaking: boolean) {
+        this.setSpeakingState(isSpeaking);
+    }
+}
+
+// Speaking state used for audio ducking
+export const speakingStateSource: SpeakingStateSource = IN_TEAMS
+    ? new TeamsSpeakingStateSource()
+    : new SimulatedSpeakingStateSource();
@@ -0,0 +1,73 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useEffect, useState } from "react";
+import { MediaItem } from "./media-list";
+import { getStreamingFormat } from "./MSEMediaPlayer";
+
+// Larger files aren't downloaded just to draw their waveform
+const MAX_AUDIO_FILE_BYTES = 20 * 1024 * 1024;
+// Sample rate to decode at, which only needs to be high enough to find peaks
+const DECODE_SAMPLE_RATE = 8000;
+
+/**
+ * Hook that decodes an audio media item and returns the loudest sample in each of `count`
+ * equal slices of it, scaled so the loudest slice is 1. Returns undefined while loading, or
+ * if the audio can't be decoded, such as for streams, files that are too large and servers
+ * that don't allow CORS requests.
+ */
+export const useAudioPeaks = (mediaItem: MediaItem, count: number) => {
+    const [peaks, setPeaks] = useState<number[]>();
+
+    useEffect(() => {
+        setPeaks(undefined);
+        if (mediaItem.type !== "audio" || getStreamingFormat(mediaItem.src))
+            return;
+        const controller = new AbortController();
+        loadAudioPeaks(mediaItem.src, count, controller.signal)
+            .then(setPeaks)
+            .catch((error) => {
+                if (controller.signal.aborted) return;
+                console.error(error);
+            });
+        return () => {
+            controller.abort();
+        };
+    }, [mediaItem.type, mediaItem.src, count]);
+
+    return peaks;
+};
+
+async function loadAudioPeaks(
+    src: string,
+    count: number,
+    signal: AbortSignal
+): Promise<number[]> {
+    const response = await fetch(src, { signal });
+    if (!response.ok) {
+        throw new Error(
+            `useAudioPeaks: request failed with status ${response.status}`
+        );
+    }
+    const size = Number(response.headers.get("Content-Length"));
+    if (size > MAX_AUDIO_FILE_BYTES) {
+        throw new Error(`useAudioPeaks: ${src} is too large to decode`);
+    }
+    const data = await response.arrayBuffer();
+    // An offline context decodes without needing a user gesture to start audio
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(data);
+    const peaks = new Array<number>(count).fill(0);
+    const sliceLength = buffer.length / count;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const samples = buffer.getChannelData(channel);
+        for (let i = 0; i < samples.length; i++) {
+            const slice = Math.min(count - 1, Math.floor(i / sliceLength));
+            peaks[slice] = Math.max(peaks[slice], Math.abs(samples[i]));
+        }
+    }
+    const loudest = Math.max(...peaks);
+    return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+}
@@ -0,0 +1,157 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { VolumeManager } from "@microsoft/live-share-media";
+import { MediaPlayerAdapter, PlayerEvent } from "./MediaPlayerAdapter";
+
+// Local storage key for the user's volume and mute settings
+const VOLUME_STORAGE_KEY = "media-volume";
+
+interface ILocalVolume {
+    volume: number;
+    muted: boolean;
+}
+
+/**
+ * Hook for the local user's volume and mute state, which is remembered on their device and
+ * restored whenever a player becomes ready or loads a new track.
+ *
+ * @remarks
+ * When a `VolumeManager` is provided, the volume is set through it so that audio ducking
+ * lowers the volume relative to the user's chosen level rather than overriding it.
+ *
+ * A player may mute itself so that the browser lets it autoplay. That mute is kept, and
+ * shown as muted, until the user unmutes or raises the volume.
+ */
+export const useLocalVolume = (
+    player: MediaPlayerAdapter | null,
+    volumeManager: VolumeManager | undefined
+) => {
+    const [localVolume, setLocalVolume] =
+        useState<ILocalVolume>(loadLocalVolume);
+    const [playerMuted, setPlayerMuted] = useState(false);
+    const muted = localVolume.muted || playerMuted;
+
+    const applyVolume = useCallback(
+        ({ volume, muted }: ILocalVolume) => {
+            if (!player) return;
+            // Unmuting is left to unmute, so a player muted to allow autoplay stays muted
+            if (muted && !player.muted) {
+                player.muted = true;
+            }
+            if (volumeManager) {
+                if (volumeManager.volume !== volume) {
+                    volumeManager.volume = volume;
+                }
+            } else if (player.volume !== volume) {
+                player.volume = volume;
+            }
+        },
+        [player, volumeManager]
+    );
+
+    const updateLocalVolume = useCallback((update: Partial<ILocalVolume>) => {
+        setLocalVolume((prevLocalVolume) => {
+            const nextLocalVolume = { ...prevLocalVolume, ...update };
+            saveLocalVolume(nextLocalVolume);
+            return nextLocalVolume;
+        });
+    }, []);
+
+    const unmute = useCallback(() => {
+        updateLocalVolume({ muted: false });
+        if (player?.muted) {
+            player.muted = false;
+        }
+    }, [player, updateLocalVolume]);
+
+    const setVolume = useCallback(
+        (volume: number) => {
+            const clampedVolume = Math.min(1, Math.max(0, volume));
+            updateLocalVolume({ volume: clampedVolume });
+            // Raising the volume from zero implies unmuting
+            if (clampedVolume > 0) {
+                unmute();
+            }
+        },
+        [updateLocalVolume, unmute]
+    );
+
+    const toggleMute = useCallback(() => {
+        if (muted) {
+            unmute();
+        } else {
+            updateLocalVolume({ muted: true });
+        }
+    }, [muted, unmute, updateLocalVolume]);
+
+    // Follow the player's own mute state
+    useEffect(() => {
+        if (!player) return;
+        const onVolumeChange = () => {
+            setPlayerMuted(player.muted);
+        };
+        onVolumeChange();
+        player.addEventListener(PlayerEvent.volumeChange, onVolumeChange);
+        return () => {
+            player.removeEventListener(
+                PlayerEvent.volumeChange,
+                onVolumeChange
+            );
+        };
+    }, [player]);
+
+    // Apply the volume when it changes, when the player is ready and each time a track loads
+    useEffect(() => {
+        if (!player) return;
+        const onLoadedMetadata = () => {
+            applyVolume(localVolume);
+        };
+        applyVolume(localVolume);
+        player.addEventListener(PlayerEvent.loadedMetadata, onLoadedMetadata);
+        return () => {
+            player.removeEventListener(
+                PlayerEvent.loadedMetadata,
+                onLoadedMetadata
+            );
+        };
+    }, [player, applyVolume, localVolume]);
+
+    return {
+        volume: localVolume.volume,
+        muted,
+        setVolume,
+        toggleMute,
+    };
+};
+
+function loadLocalVolume(): ILocalVolume {
+    try {
+        const value = JSON.parse(
+            localStorage.getItem(VOLUME_STORAGE_KEY) ?? "null"
+        );
+        if (
+            typeof value?.volume === "number" &&
+            typeof value?.muted === "boolean"
+        ) {
+            return {
+                volume: Math.min(1, Math.max(0, value.volume)),
+                muted: value.muted,
+            };
+        }
+    } catch (error) {
+        console.error(error);
+    }
+    return { volume: 1, muted: false };
+}
+
+function saveLocalVolume(localVolume: ILocalVolume) {
+    try {
+        localStorage.setItem(VOLUME_STORAGE_KEY, JSON.stringify(localVolume));
+    } catch (error) {
+        console.error(error);
+    }
+}
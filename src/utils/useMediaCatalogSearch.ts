@@ -0,0 +1,66 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useEffect, useState } from "react";
+import {
+    IMediaCatalogPage,
+    MediaCatalogProvider,
+} from "./MediaCatalogProvider";
+
+// Wait for the user to stop typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Hook that searches a media catalog, returning the requested page of results.
+ * Changing the query goes back to the first page.
+ */
+export const useMediaCatalogSearch = (
+    mediaCatalog: MediaCatalogProvider,
+    query: string
+) => {
+    const [page, setPage] = useState(0);
+    const [results, setResults] = useState<IMediaCatalogPage>();
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<Error>();
+
+    useEffect(() => {
+        setPage(0);
+    }, [query]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        const timeout = setTimeout(() => {
+            mediaCatalog
+                .search(query.trim(), page)
+                .then((nextResults) => {
+                    if (cancelled) return;
+                    setResults(nextResults);
+                    setError(undefined);
+                })
+                .catch((err: Error) => {
+                    if (cancelled) return;
+                    console.error(err);
+                    setError(err);
+                })
+                .finally(() => {
+                    if (cancelled) return;
+                    setLoading(false);
+                });
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [mediaCatalog, query, page]);
+
+    return {
+        results,
+        page,
+        setPage,
+        loading,
+        error,
+    };
+};
@@ -0,0 +1,48 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useEffect, useState } from "react";
+import { IMediaChapter, MediaItem } from "./media-list";
+import { parseWebVTT } from "./webvtt";
+
+/**
+ * Hook that returns the chapters of a media item, from its metadata or its WebVTT
+ * chapters file. Returns an empty list while loading or if the file can't be read.
+ */
+export const useMediaChapters = (mediaItem: MediaItem | undefined) => {
+    const [chapters, setChapters] = useState<IMediaChapter[]>([]);
+
+    useEffect(() => {
+        setChapters(mediaItem?.chapters ?? []);
+        if (mediaItem?.chapters || !mediaItem?.chaptersSrc) return;
+        let cancelled = false;
+        fetch(mediaItem.chaptersSrc)
+            .then((response) => {
+                if (!response.ok) {
+                    throw new Error(
+                        `useMediaChapters: request failed with status ${response.status}`
+                    );
+                }
+                return response.text();
+            })
+            .then((text) => {
+                if (cancelled) return;
+                setChapters(
+                    parseWebVTT(text).map((cue) => ({
+                        startTime: cue.startTime,
+                        title: cue.text,
+                    }))
+                );
+            })
+            .catch((error) => {
+                console.error(error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [mediaItem?.id, mediaItem?.chapters, mediaItem?.chaptersSrc]);
+
+    return chapters;
+};
@@ -0,0 +1,63 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+    clearSnapshots,
+    deleteSnapshot,
+    getSnapshots,
+    ISnapshot,
+    subscribeToSnapshots,
+} from "./snapshots";
+
+export interface ISnapshotItem extends ISnapshot {
+    // Object URL for displaying the image, valid while the item is listed
+    url: string;
+}
+
+/**
+ * Hook that lists the snapshots taken this session, updating when any window adds or
+ * deletes one.
+ */
+export const useSnapshots = () => {
+    const [snapshots, setSnapshots] = useState<ISnapshotItem[]>([]);
+
+    useEffect(() => {
+        let urls: string[] = [];
+        const revokeUrls = () => {
+            urls.forEach((url) => URL.revokeObjectURL(url));
+            urls = [];
+        };
+        const refresh = () => {
+            revokeUrls();
+            const items = getSnapshots().map((snapshot) => ({
+                ...snapshot,
+                url: URL.createObjectURL(snapshot.image),
+            }));
+            urls = items.map((item) => item.url);
+            setSnapshots(items);
+        };
+        refresh();
+        const unsubscribe = subscribeToSnapshots(refresh);
+        return () => {
+            unsubscribe();
+            revokeUrls();
+        };
+    }, []);
+
+    const removeSnapshot = useCallback((id: string) => {
+        deleteSnapshot(id);
+    }, []);
+
+    const removeAllSnapshots = useCallback(() => {
+        clearSnapshots();
+    }, []);
+
+    return {
+        snapshots,
+        removeSnapshot,
+        removeAllSnapshots,
+    };
+};
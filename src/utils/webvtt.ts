@@ -0,0 +1,92 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * A timed cue from a WebVTT or SRT file.
+ */
+export interface ITextCue {
+    // Start and end times in seconds
+    startTime: number;
+    endTime: number;
+    text: string;
+}
+
+const TIMING_PATTERN =
+    /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})/;
+
+/**
+ * Parse the cues of a WebVTT file, ignoring styles, regions and notes.
+ *
+ * @throws if the text does not start with the WEBVTT header.
+ */
+export function parseWebVTT(text: string): ITextCue[] {
+    const blocks = text
+        .replace(/^\uFEFF/, "")
+        .replace(/\r\n?/g, "\n")
+        .split(/\n{2,}/);
+    if (!blocks[0]?.startsWith("WEBVTT")) {
+        throw new Error("parseWebVTT: missing WEBVTT header");
+    }
+    return parseCueBlocks(blocks.slice(1));
+}
+
+/**
+ * Parse the cues of an SRT file.
+ */
+export function parseSRT(text: string): ITextCue[] {
+    return parseCueBlocks(
+        text
+            .replace(/^\uFEFF/, "")
+            .replace(/\r\n?/g, "\n")
+            .split(/\n{2,}/)
+    );
+}
+
+/**
+ * Parse a subtitle file as WebVTT if it has the WEBVTT header, or SRT otherwise.
+ * Cue text is returned without WebVTT tags (e.g., <v Speaker>, <i>).
+ */
+export function parseSubtitles(text: string): ITextCue[] {
+    const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+    const cues = trimmed.startsWith("WEBVTT")
+        ? parseWebVTT(trimmed)
+        : parseSRT(trimmed);
+    return cues.map((cue) => ({
+        ...cue,
+        text: cue.text.replace(/<[^>]+>/g, ""),
+    }));
+}
+
+/**
+ * Parse blocks of "[identifier]\nstart --> end\ntext" cues, skipping anything else.
+ */
+export function parseCueBlocks(blocks: string[]): ITextCue[] {
+    const cues: ITextCue[] = [];
+    blocks.forEach((block) => {
+        const lines = block.split("\n").filter((line) => line.trim() !== "");
+        const timingIndex = lines.findIndex((line) =>
+            TIMING_PATTERN.test(line.trim())
+        );
+        // Cue identifiers take at most one line before the timing line
+        if (timingIndex < 0 || timingIndex > 1) return;
+        const match = TIMING_PATTERN.exec(lines[timingIndex].trim());
+        if (!match) return;
+        cues.push({
+            startTime: parseTimestamp(match[1]),
+            endTime: parseTimestamp(match[2]),
+            text: lines
+                .slice(timingIndex + 1)
+                .join("\n")
+                .trim(),
+        });
+    });
+    return cues.sort((a, b) => a.startTime - b.startTime);
+}
+
+// Parse "hh:mm:ss.ttt" or "mm:ss.ttt" into seconds
+function parseTimestamp(value: string): number {
+    const parts = value.replace(",", ".").split(":").map(parseFloat);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
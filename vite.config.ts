@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
@@ -14,4 +15,7 @@ export default defineConfig({
     optimizeDeps: {
         force: true,
     },
+    test: {
+        environment: "jsdom",
+    },
 });